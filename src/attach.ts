@@ -0,0 +1,106 @@
+import { isBool, isDefined, isObj, isStr } from '@megaorm/test';
+import { isArr } from '@megaorm/test';
+
+/**
+ * Options used to attach a database.
+ */
+export interface SQLiteAttachOptions {
+  /**
+   * Whether to attach the database in read-only mode, defaults to `false`.
+   */
+  readonly?: boolean;
+}
+
+/**
+ * A database attached on every connection, declared in the driver options.
+ */
+export interface SQLiteAttachment extends SQLiteAttachOptions {
+  /**
+   * The database file path.
+   */
+  path: string;
+}
+
+/**
+ * A database attached to a connection.
+ */
+export interface SQLiteAttachedDatabase {
+  /**
+   * The schema name used to reference the database in queries.
+   */
+  alias: string;
+
+  /**
+   * The database file path, empty for in-memory and temporary databases.
+   */
+  path: string;
+}
+
+/**
+ * Schema names reserved by SQLite.
+ */
+const RESERVED = ['main', 'temp'];
+
+/**
+ * Checks if the given value can be used to attach a database.
+ * @param alias The value to check.
+ * @returns `true` if the value is a valid identifier that SQLite does not reserve.
+ */
+export function isAlias(alias: any): boolean {
+  return (
+    isStr(alias) &&
+    /^[a-z_][a-z0-9_]*$/i.test(alias) &&
+    !RESERVED.includes(alias.toLowerCase())
+  );
+}
+
+/**
+ * Checks if the given value is a valid attachment.
+ * @param attachment The value to check.
+ * @returns `true` if the value is a path, or an object with a path and an optional read-only flag.
+ */
+export function isAttachment(attachment: any): boolean {
+  if (isStr(attachment)) return attachment.length > 0;
+  if (!isObj(attachment) || isArr(attachment)) return false;
+
+  const { path, readonly } = attachment as SQLiteAttachment;
+
+  return (
+    isStr(path) && path.length > 0 && (!isDefined(readonly) || isBool(readonly))
+  );
+}
+
+/**
+ * Builds the file name SQLite attaches for the given path.
+ * @param path The database file path.
+ * @param readonly Whether to attach the database in read-only mode.
+ * @returns The path as is, or a `file:` URI that opens the database in read-only mode.
+ */
+export function source(path: string, readonly: boolean): string {
+  if (!readonly) return path;
+
+  const encoded = encodeURI(path).replace(/[?#]/g, encodeURIComponent);
+  return `file:${encoded}?mode=ro`;
+}
+
+/**
+ * Builds the statement that attaches a database.
+ * @param alias The schema name, validated with `isAlias()`.
+ * @returns The `ATTACH` statement, which takes the file name as its only value.
+ */
+export function attachment(alias: string): string {
+  return `ATTACH DATABASE ? AS "${alias}";`;
+}
+
+/**
+ * Maps the rows of `PRAGMA database_list` to the attached databases.
+ * @param rows The rows, with the `name` and `file` of every database.
+ * @returns The attached databases, without `main` and `temp`.
+ */
+export function attached(
+  rows: Array<{ name: string; file: string }>
+): Array<SQLiteAttachedDatabase> {
+  return rows
+    .filter((row) => !RESERVED.includes(row.name))
+    .map((row) => ({ alias: row.name, path: row.file }));
+}
@@ -0,0 +1,182 @@
+import { isDefined, isFunc, isInt, isObj } from '@megaorm/test';
+import { isArr, isStr } from '@megaorm/test';
+import { BackupError, isBusy, isError, wrap } from './errors';
+import { Backup, Handle } from './engine';
+
+/**
+ * The progress of a backup or restore, reported after every step.
+ */
+export interface SQLiteBackupProgress {
+  /**
+   * The number of pages left to copy.
+   */
+  remaining: number;
+
+  /**
+   * The total number of pages of the source database.
+   */
+  pageCount: number;
+
+  /**
+   * The percentage of pages copied, from `0` to `100`.
+   */
+  percent: number;
+}
+
+/**
+ * Options used to back up or restore a database.
+ */
+export interface SQLiteBackupOptions {
+  /**
+   * Number of pages copied per step, defaults to `100`.
+   * Smaller steps let other queries run in between, larger steps finish sooner.
+   */
+  pagesPerStep?: number;
+
+  /**
+   * Called after every step with the progress.
+   */
+  onProgress?: (progress: SQLiteBackupProgress) => void;
+}
+
+/**
+ * Number of times a step that hits a busy or locked database is retried.
+ */
+const RETRIES = 5;
+
+/**
+ * Milliseconds before the first retry of a busy step, doubled on every retry.
+ */
+const DELAY = 50;
+
+/**
+ * Validates the backup options.
+ * @param path The file path to copy to or from.
+ * @param options The backup options.
+ * @returns The number of pages copied per step.
+ * @throws `BackupError` If the path or options are invalid.
+ */
+function validate(path: string, options: SQLiteBackupOptions): number {
+  if (!isStr(path) || path.length === 0) {
+    throw new BackupError(`Invalid backup path: ${String(path)}`);
+  }
+
+  if (isDefined(options) && (!isObj(options) || isArr(options))) {
+    throw new BackupError(`Invalid backup options: ${String(options)}`);
+  }
+
+  const { pagesPerStep = 100, onProgress } = options || {};
+
+  if (!isInt(pagesPerStep) || pagesPerStep < 1) {
+    throw new BackupError(
+      `Invalid backup pages per step: ${String(pagesPerStep)}`
+    );
+  }
+
+  if (isDefined(onProgress) && !isFunc(onProgress)) {
+    throw new BackupError(
+      `Invalid backup progress callback: ${String(onProgress)}`
+    );
+  }
+
+  return pagesPerStep;
+}
+
+/**
+ * Copies the main database of the given connection to a file, or a file to the main database.
+ * @param db The database.
+ * @param path The file path to copy to or from.
+ * @param options The number of pages per step and the progress callback.
+ * @param restore Whether to copy the file to the database instead.
+ * @returns A `Promise` that resolves once every page is copied.
+ * @throws `BackupError` If the options are invalid, or the copy fails.
+ * @note
+ * - Steps that hit a busy or locked database are retried up to 5 times, waiting 50ms before the first retry and twice as long before each next one.
+ * - The next step waits for pending I/O, so other queries can run in between.
+ */
+export function backup(
+  db: Handle,
+  path: string,
+  options: SQLiteBackupOptions,
+  restore: boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let pages: number;
+
+    try {
+      pages = validate(path, options);
+    } catch (error) {
+      return reject(error);
+    }
+
+    const onProgress = isDefined(options) ? options.onProgress : undefined;
+    const action = restore ? 'restore' : 'back up';
+
+    const fail = (error: Error) => {
+      handle.finish(() =>
+        reject(
+          wrap(BackupError, error, {
+            message: `Failed to ${action} ${path}: ${error.message}`,
+          })
+        )
+      );
+    };
+
+    let retries = 0;
+
+    // Copies the next pages, until every page is copied
+    const step = () => {
+      handle.step(pages, (error) => {
+        if (isBusy(error) && !handle.failed && retries < RETRIES) {
+          return setTimeout(step, DELAY * 2 ** retries++);
+        }
+
+        if (isError(error)) return fail(error);
+        retries = 0;
+
+        if (handle.failed) return fail(new Error('Backup failed'));
+
+        if (isDefined(onProgress) && handle.pageCount > 0) {
+          const copied = handle.pageCount - handle.remaining;
+          const percent = Math.round((copied / handle.pageCount) * 100);
+
+          try {
+            onProgress({
+              remaining: handle.remaining,
+              pageCount: handle.pageCount,
+              percent,
+            });
+          } catch (error) {
+            return fail(error);
+          }
+        }
+
+        if (!handle.completed) return setImmediate(step);
+
+        handle.finish((error) => {
+          if (isError(error)) {
+            return reject(
+              wrap(BackupError, error, {
+                message: `Failed to ${action} ${path}: ${error.message}`,
+              })
+            );
+          }
+
+          resolve();
+        });
+      });
+    };
+
+    // The last argument tells whether the file is the destination
+    const handle: Backup = db.backup(
+      path,
+      'main',
+      'main',
+      !restore,
+      (error) => {
+        if (isError(error)) return fail(error);
+        step();
+      }
+    );
+  });
+}
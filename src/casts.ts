@@ -0,0 +1,136 @@
+import { Row, Rows } from '@megaorm/driver';
+import { QueryError } from '@megaorm/errors';
+import { isDefined, isFunc, isNum, isStr } from '@megaorm/test';
+import { SQLiteDateFormat } from './values';
+
+/**
+ * How a column value is decoded:
+ * - `boolean`: Integers become `true` unless they are `0`.
+ * - `date`: Text and numbers become a `Date`, numbers being read with the driver date format.
+ * - `json`: Text is parsed as JSON.
+ * - A function called with every value that is not `NULL`.
+ * @note `NULL` values are never cast.
+ */
+export type SQLiteCast =
+  'boolean' | 'date' | 'json' | ((value: unknown) => unknown);
+
+/**
+ * A cast converted to a function, with the date format resolved.
+ */
+export type Caster = (value: unknown) => unknown;
+
+/**
+ * The built-in casts.
+ */
+const CASTS = ['boolean', 'date', 'json'];
+
+/**
+ * Text dates without a time zone, like the `CURRENT_TIMESTAMP` format, which SQLite stores in UTC.
+ */
+const UTC = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Checks if the given value is a valid cast.
+ * @param cast The value to check.
+ * @returns `true` if the value is a built-in cast or a function.
+ */
+export function isCast(cast: any): boolean {
+  return isFunc(cast) || CASTS.includes(cast);
+}
+
+/**
+ * Normalizes a declared column type, so `varchar(255)` and `VARCHAR` match.
+ * @param type The declared type.
+ * @returns The type in upper case, without its size and extra spaces.
+ */
+export function typeName(type: string): string {
+  return type.replace(/\(.*$/, '').trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * Converts a cast to a function.
+ * @param cast The cast, validated with `isCast()`.
+ * @param format How dates are stored.
+ * @returns A function that decodes a value, and returns `NULL` values as is.
+ * @note The `json` cast throws a `QueryError` if the text is not valid JSON.
+ */
+export function caster(cast: SQLiteCast, format: SQLiteDateFormat): Caster {
+  const decode = (value: any): unknown => {
+    if (isFunc(cast)) return (cast as Caster)(value);
+
+    if (cast === 'boolean') {
+      return isNum(value) || typeof value === 'bigint' ? value != 0 : value;
+    }
+
+    if (cast === 'date') {
+      if (typeof value === 'bigint') value = Number(value);
+
+      const date = isNum(value)
+        ? new Date(format === 'unix' ? (value as number) * 1000 : value)
+        : isStr(value)
+          ? new Date(UTC.test(value) ? `${value.replace(' ', 'T')}Z` : value)
+          : undefined;
+
+      // Values that are not dates are kept, rather than lost
+      return isDefined(date) && !Number.isNaN(date.getTime()) ? date : value;
+    }
+
+    if (!isStr(value)) return value;
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new QueryError(`Invalid JSON value: ${error.message}`);
+    }
+  };
+
+  return (value) => (value === null ? null : decode(value));
+}
+
+/**
+ * Converts the given casts to functions.
+ * @param casts The casts by key, validated with `isCast()`.
+ * @param format How dates are stored.
+ * @returns The functions by key, or `undefined` if there are no casts.
+ */
+export function casters(
+  casts: Record<string, SQLiteCast>,
+  format: SQLiteDateFormat
+): Record<string, Caster> | undefined {
+  if (!isDefined(casts) || Object.keys(casts).length === 0) return undefined;
+
+  return Object.entries(casts).reduce(
+    (casters, [key, cast]) => {
+      casters[key] = caster(cast, format);
+      return casters;
+    },
+    {} as Record<string, Caster>
+  );
+}
+
+/**
+ * Decodes the columns of a row in place.
+ * @param row The row.
+ * @param casters The functions by column name.
+ * @returns The row.
+ */
+export function decode(row: Row, casters: Record<string, Caster>): Row {
+  if (!isDefined(row) || !isDefined(casters)) return row;
+
+  Object.keys(casters).forEach((column) => {
+    if (column in row) row[column] = casters[column](row[column]);
+  });
+
+  return row;
+}
+
+/**
+ * Decodes the columns of every row in place.
+ * @param rows The rows.
+ * @param casters The functions by column name.
+ * @returns The rows.
+ */
+export function decodeAll(rows: Rows, casters: Record<string, Caster>): Rows {
+  if (isDefined(casters)) rows.forEach((row) => decode(row, casters));
+  return rows;
+}
@@ -0,0 +1,892 @@
+import type { Database, Statement } from 'sqlite3';
+import { Row, Rows } from '@megaorm/driver';
+import { isArr, isDefined, isFunc, isInt } from '@megaorm/test';
+import { isStr } from '@megaorm/test';
+import { existsSync } from 'fs';
+import { Params } from './values';
+import { REGEXP, SQLiteAggregate, SQLiteFunction } from './functions';
+import { Caster, decode, typeName } from './casts';
+import { isBusy, isError } from './errors';
+import type { SQLiteMode } from './index';
+
+/**
+ * The library used to access SQLite databases.
+ * - `sqlite3`: The asynchronous `sqlite3` package (default), which must be installed.
+ * - `node:sqlite`: The synchronous SQLite module built into Node.js 22.13 and later.
+ * - `better-sqlite3`: The synchronous `better-sqlite3` package, which must be installed.
+ */
+export type SQLiteEngine = 'sqlite3' | 'node:sqlite' | 'better-sqlite3';
+
+/**
+ * The supported engines.
+ */
+export const ENGINES: Array<SQLiteEngine> = [
+  'sqlite3',
+  'node:sqlite',
+  'better-sqlite3',
+];
+
+/**
+ * How the synchronous engines decode the rows they read.
+ */
+export interface Decoding {
+  /**
+   * Casts by declared column type, normalized with `typeName()`.
+   */
+  types?: Record<string, Caster>;
+
+  /**
+   * Whether integers beyond `Number.MAX_SAFE_INTEGER` are read as `bigint`.
+   */
+  safeIntegers?: boolean;
+}
+
+/**
+ * The supported open modes.
+ */
+export const MODES: Array<SQLiteMode> = ['readonly', 'readwrite', 'create'];
+
+/**
+ * SQLite primary result code names, indexed by result code.
+ */
+const CODES = [
+  'OK',
+  'ERROR',
+  'INTERNAL',
+  'PERM',
+  'ABORT',
+  'BUSY',
+  'LOCKED',
+  'NOMEM',
+  'READONLY',
+  'INTERRUPT',
+  'IOERR',
+  'CORRUPT',
+  'NOTFOUND',
+  'FULL',
+  'CANTOPEN',
+  'PROTOCOL',
+  'EMPTY',
+  'SCHEMA',
+  'TOOBIG',
+  'CONSTRAINT',
+  'MISMATCH',
+  'MISUSE',
+  'NOLFS',
+  'AUTH',
+  'FORMAT',
+  'RANGE',
+  'NOTADB',
+  'NOTICE',
+  'WARNING',
+];
+
+/**
+ * A statement of a synchronous engine.
+ */
+interface SyncStatement {
+  /**
+   * Whether the statement produces rows, only known by `better-sqlite3`.
+   */
+  reader?: boolean;
+  run(...params: Array<any>): {
+    changes: number | bigint;
+    lastInsertRowid: number | bigint;
+  };
+  all(...params: Array<any>): Rows;
+  iterate?(...params: Array<any>): Iterator<Row>;
+  columns?(): Array<{ name: string; type: string | null }>;
+
+  /**
+   * Reads every integer as a `bigint`, only declared by `node:sqlite`.
+   */
+  setReadBigInts?(enabled: boolean): void;
+
+  /**
+   * Reads every integer as a `bigint`, only declared by `better-sqlite3`.
+   */
+  safeIntegers?(enabled: boolean): SyncStatement;
+}
+
+/**
+ * The sqlite3 backup handle, which sqlite3 does not declare.
+ */
+export interface Backup {
+  completed: boolean;
+  failed: boolean;
+  remaining: number;
+  pageCount: number;
+  step(pages: number, callback: (error: Error | null) => void): void;
+  finish(callback?: (error: Error | null) => void): void;
+}
+
+/**
+ * A database opened with an engine, with the sqlite3 backup API that sqlite3 does not declare.
+ */
+export interface Handle extends Database {
+  /**
+   * Starts copying a database to or from the given file.
+   * @param file The file path.
+   * @param destination The schema name copied to.
+   * @param source The schema name copied from.
+   * @param toFile Whether the file is the destination.
+   * @param callback Called once the backup can step, or fails to start.
+   */
+  backup(
+    file: string,
+    destination: string,
+    source: string,
+    toFile: boolean,
+    callback: (error: Error | null) => void
+  ): Backup;
+}
+
+/**
+ * A database of a synchronous engine.
+ */
+interface SyncDatabase {
+  prepare(sql: string): SyncStatement;
+  exec(sql: string): void;
+  close(): void;
+  function(name: string, options: object, fn: Function): void;
+  aggregate(name: string, options: object): void;
+
+  /**
+   * Copies the main database to the given file, only declared by `better-sqlite3`.
+   */
+  backup?(
+    path: string,
+    options: { progress: (progress: SyncProgress) => number }
+  ): Promise<unknown>;
+}
+
+/**
+ * The progress of a synchronous engine backup.
+ */
+interface SyncProgress {
+  totalPages: number;
+  remainingPages: number;
+}
+
+/**
+ * How the driver uses a synchronous engine.
+ */
+interface SyncEngine {
+  /**
+   * Opens the database at the given path.
+   * @throws If the database cannot be opened.
+   */
+  open(path: string, mode: SQLiteMode): SyncDatabase;
+
+  /**
+   * Whether a statement that is still iterating blocks every other statement.
+   */
+  locks: boolean;
+
+  /**
+   * The key used to bind a named placeholder, like `:id`.
+   */
+  key(token: string): string;
+
+  /**
+   * Makes the given statement read every integer as a `bigint`.
+   */
+  readBigInts(stmt: SyncStatement): void;
+
+  /**
+   * Copies the main database of the given database to the given file.
+   */
+  backup(
+    db: SyncDatabase,
+    path: string,
+    pages: number,
+    progress: (progress: SyncProgress) => void
+  ): Promise<unknown>;
+}
+
+/**
+ * Checks if the given path opens an in-memory database.
+ * @param path The database path.
+ * @returns `true` for `:memory:` and empty paths.
+ */
+function isMemory(path: string): boolean {
+  return path === ':memory:' || path === '';
+}
+
+/**
+ * Fails like sqlite3 does when a database that must exist is missing.
+ * @param path The database path.
+ * @param mode The open mode.
+ * @throws If the mode does not create the database, and the file does not exist.
+ */
+function mustExist(path: string, mode: SQLiteMode): void {
+  if (mode === 'create' || isMemory(path) || existsSync(path)) return;
+
+  const error: any = new Error('unable to open database file');
+  error.errcode = 14;
+  throw error;
+}
+
+/**
+ * The synchronous engines.
+ */
+const SYNC_ENGINES: Record<Exclude<SQLiteEngine, 'sqlite3'>, SyncEngine> = {
+  'node:sqlite': {
+    open(path, mode) {
+      const { DatabaseSync } = require('node:sqlite');
+
+      mustExist(path, mode);
+      return new DatabaseSync(path, { readOnly: mode === 'readonly' });
+    },
+    locks: false,
+    key: (token) => token,
+    readBigInts: (stmt) => stmt.setReadBigInts(true),
+    backup(db, path, pages, progress) {
+      const { backup } = require('node:sqlite');
+
+      if (!isFunc(backup)) {
+        return Promise.reject(
+          new Error('This Node.js version cannot back up databases')
+        );
+      }
+
+      return backup(db, path, { rate: pages, progress });
+    },
+  },
+  'better-sqlite3': {
+    open(path, mode) {
+      const BetterSqlite3 = require('better-sqlite3');
+
+      return new BetterSqlite3(path, {
+        readonly: mode === 'readonly',
+        fileMustExist: mode !== 'create',
+      });
+    },
+    locks: true,
+    key: (token) => token.slice(1),
+    readBigInts: (stmt) => stmt.safeIntegers(true),
+    backup(db, path, pages, progress) {
+      return db.backup(path, {
+        progress: (status) => {
+          progress(status);
+          return pages;
+        },
+      });
+    },
+  },
+};
+
+/**
+ * Converts a synchronous engine error to a sqlite3 error, with the primary result code.
+ * @param error The engine error.
+ * @returns An error like `SQLITE_CONSTRAINT: UNIQUE constraint failed: users.email`, with the `primaryKey` constraint kind for failed primary keys, or the error as is if it is not a SQLite error.
+ * @note `node:sqlite` errors have a numeric `errcode`, `better-sqlite3` errors have an extended `code` like `SQLITE_CONSTRAINT_UNIQUE`.
+ */
+function normalize(error: any): Error {
+  if (!isError(error)) return new Error(String(error));
+
+  let errno: number;
+
+  if (isInt(error.errcode)) {
+    errno = error.errcode & 0xff;
+  } else if (isStr(error.code) && /^SQLITE_[A-Z]+/.test(error.code)) {
+    errno = CODES.indexOf(error.code.match(/^SQLITE_([A-Z]+)/)[1]);
+  }
+
+  if (!isDefined(errno) || errno < 1) return error;
+
+  const code = `SQLITE_${CODES[errno] || 'ERROR'}`;
+  const normalized: any = new Error(`${code}: ${error.message}`);
+
+  normalized.code = code;
+  normalized.errno = errno;
+
+  // Failed primary keys read like unique constraints, only the extended code tells them apart
+  if (error.errcode === 1555 || error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+    normalized.constraint = 'primaryKey';
+  }
+
+  return normalized;
+}
+
+/**
+ * Wraps a function, so the engine reads the given number of arguments from its length.
+ * @param fn The function.
+ * @param arity The number of arguments.
+ * @returns The function as is if the arity is not given, or a wrapper with the given length.
+ */
+function withArity(fn: Function, arity: number): Function {
+  if (!isDefined(arity) || arity < 0) return fn;
+
+  const wrapper = (...args: Array<any>) => fn(...args);
+  return Object.defineProperty(wrapper, 'length', { value: arity });
+}
+
+/**
+ * Reads integers within the safe range as numbers.
+ * @param value A column value.
+ * @returns The value, as a number if it is a `bigint` that fits.
+ */
+function safe(value: unknown): unknown {
+  if (
+    typeof value === 'bigint' &&
+    value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    value >= BigInt(Number.MIN_SAFE_INTEGER)
+  ) {
+    return Number(value);
+  }
+
+  return value;
+}
+
+/**
+ * Adapts a synchronous engine to the sqlite3 API the driver uses.
+ * @param name The engine name.
+ * @param path The database path.
+ * @param mode The open mode.
+ * @param decoding How rows are decoded.
+ * @param callback Called once the database is opened, or fails to open.
+ * @returns The adapted database.
+ * @note
+ * - Queries run right away in call order, and their callbacks are called once pending I/O is done, like sqlite3.
+ * - Statements stepped one row at a time read one row per step, `better-sqlite3` locks the connection while iterating, so the rows left are loaded before any other statement runs.
+ * - Queries cannot be interrupted, since they block the event loop while they run.
+ * - Databases are restored by copying the file to the main database file, so in-memory databases cannot be restored.
+ */
+function adapt(
+  name: Exclude<SQLiteEngine, 'sqlite3'>,
+  path: string,
+  mode: SQLiteMode,
+  decoding: Decoding,
+  callback: (error: Error | null) => void
+): Handle {
+  const engine = SYNC_ENGINES[name];
+  const types = decoding.types;
+  const safeIntegers = decoding.safeIntegers === true;
+
+  let native: SyncDatabase;
+
+  // Statements still iterating, by the function that loads their rows left
+  const cursors = new Set<() => void>();
+
+  // Loads the rows left of every other statement, if iterating locks the connection
+  const release = (cursor?: () => void) => {
+    if (!engine.locks) return;
+    cursors.forEach((drain) => drain !== cursor && drain());
+  };
+
+  // Runs the given task, and calls back with its result or error
+  const execute = <T>(
+    task: () => T,
+    resolve: (result: T) => void,
+    reject: (error: Error) => void,
+    cursor?: () => void
+  ) => {
+    let result: T;
+
+    try {
+      release(cursor);
+      result = task();
+    } catch (error) {
+      return setImmediate(() => reject(normalize(error)));
+    }
+
+    setImmediate(() => resolve(result));
+  };
+
+  // Converts sqlite3 parameters to engine arguments
+  const args = (params: Params): Array<any> => {
+    if (!isDefined(params)) return [];
+    if (isArr(params)) return params as Array<any>;
+
+    return [
+      Object.entries(params).reduce(
+        (bound, [token, value]) => {
+          bound[engine.key(token)] = value;
+          return bound;
+        },
+        {} as Record<string, any>
+      ),
+    ];
+  };
+
+  // Runs the given statement, with the summary sqlite3 passes as `this`
+  const run = (stmt: SyncStatement, bound: Array<any>) => {
+    const { changes, lastInsertRowid } = stmt.run(...bound);
+    return { changes: Number(changes), lastID: Number(lastInsertRowid) };
+  };
+
+  // Prepares the given SQL, with the decoding options applied
+  const compile = (sql: string): SyncStatement => {
+    const stmt = native.prepare(sql);
+    if (safeIntegers && stmt.reader !== false) engine.readBigInts(stmt);
+    return stmt;
+  };
+
+  // Finds the casts of the given statement columns by declared type
+  const casters = (stmt: SyncStatement): Record<string, Caster> => {
+    if (!isDefined(types)) return undefined;
+
+    return stmt.columns().reduce(
+      (casters, column) => {
+        const type = isStr(column.type) ? typeName(column.type) : undefined;
+        if (isDefined(types[type])) casters[column.name] = types[type];
+        return casters;
+      },
+      {} as Record<string, Caster>
+    );
+  };
+
+  // Decodes the given rows, with the casts of their statement columns
+  const read = (rows: Rows, columns: Record<string, Caster>): Rows => {
+    // node:sqlite rows have no prototype, unlike sqlite3 rows
+    rows = rows.map((row) =>
+      Object.getPrototypeOf(row) === null ? { ...row } : row
+    );
+
+    if (safeIntegers) {
+      rows.forEach((row) =>
+        Object.keys(row).forEach((column) => (row[column] = safe(row[column])))
+      );
+    }
+
+    if (isDefined(columns)) rows.forEach((row) => decode(row, columns));
+
+    return rows;
+  };
+
+  // Gets all rows, statements without rows resolve with none like in sqlite3
+  const all = (stmt: SyncStatement, bound: Array<any>): Rows => {
+    if (stmt.reader === false) {
+      stmt.run(...bound);
+      return [];
+    }
+
+    return read(stmt.all(...bound), casters(stmt));
+  };
+
+  // Splits the optional parameters from the callback
+  const split = (params: Array<any>): [Params, Function] => {
+    const done = params.pop();
+    return [params.length > 0 ? params[0] : undefined, done];
+  };
+
+  const prepare = (sql: string, done?: (error: Error | null) => void) => {
+    let stmt: SyncStatement;
+    let failure: Error;
+    let bound: Array<any> = [];
+    let rows: Rows;
+    let index = 0;
+    let iterator: Iterator<Row>;
+    let columns: Record<string, Caster>;
+    let broken: unknown;
+
+    try {
+      stmt = compile(sql);
+    } catch (error) {
+      failure = normalize(error);
+    }
+
+    if (isFunc(done)) setImmediate(() => done(failure || null));
+
+    // Stops iterating, so the statement runs from the start on the next step
+    const close = () => {
+      const open = iterator;
+
+      iterator = undefined;
+      cursors.delete(drain);
+      if (isDefined(open) && isFunc(open.return)) open.return();
+    };
+
+    // Loads the rows left, the next steps read them instead
+    const drain = () => {
+      const left: Rows = [];
+
+      try {
+        for (let next = iterator.next(); !next.done; next = iterator.next()) {
+          left.push(read([next.value], columns)[0]);
+        }
+      } catch (error) {
+        // The next steps read the rows loaded, then fail
+        broken = error;
+      }
+
+      close();
+      rows = left;
+      index = 0;
+    };
+
+    // Reads the next row, starting to iterate on the first step
+    const next = (): Row => {
+      if (isDefined(rows)) {
+        if (index >= rows.length && isDefined(broken)) {
+          const error = broken;
+          broken = undefined;
+          throw error;
+        }
+
+        return rows[index++];
+      }
+
+      if (!isDefined(iterator)) {
+        if (stmt.reader === false || !isFunc(stmt.iterate)) {
+          rows = all(stmt, bound);
+          index = 0;
+          return rows[index++];
+        }
+
+        iterator = stmt.iterate(...bound);
+        columns = casters(stmt);
+        cursors.add(drain);
+      }
+
+      const result = iterator.next();
+
+      if (result.done) {
+        close();
+        rows = [];
+        return undefined;
+      }
+
+      return read([result.value], columns)[0];
+    };
+
+    // Runs the statement from the start, like sqlite3 does for `run()` and `all()`
+    const restart = () => {
+      close();
+      rows = undefined;
+      broken = undefined;
+      return stmt;
+    };
+
+    // Binds the given parameters, then runs the given task
+    const step = <T>(
+      params: Params,
+      task: () => T,
+      resolve: (result: T) => void,
+      reject: (error: Error) => void,
+      cursor?: () => void
+    ) => {
+      if (isDefined(failure)) return setImmediate(() => reject(failure));
+
+      if (isDefined(params)) {
+        bound = args(params);
+        restart();
+      }
+
+      execute(task, resolve, reject, cursor);
+    };
+
+    const adapted = {
+      run(...params: Array<any>) {
+        const [values, done] = split(params);
+
+        step(
+          values,
+          () => run(restart(), bound),
+          (result) => done.call(result, null),
+          (error) => done.call({}, error),
+          drain
+        );
+
+        return adapted;
+      },
+      all(...params: Array<any>) {
+        const [values, done] = split(params);
+
+        step(
+          values,
+          () => all(restart(), bound),
+          (rows) => done(null, rows),
+          (error) => done(error),
+          drain
+        );
+
+        return adapted;
+      },
+      get(...params: Array<any>) {
+        const [values, done] = split(params);
+
+        step(
+          values,
+          next,
+          (row) => done(null, row),
+          (error) => done(error),
+          drain
+        );
+
+        return adapted;
+      },
+      bind(...params: Array<any>) {
+        const [values, done] = split(params);
+
+        step(
+          values,
+          () => undefined,
+          () => done(null),
+          (error) => done(error)
+        );
+
+        return adapted;
+      },
+      reset(done: (error: Error | null) => void) {
+        restart();
+        setImmediate(() => done(null));
+        return adapted;
+      },
+      finalize(done?: (error: Error | null) => void) {
+        close();
+        stmt = undefined;
+        failure = new Error('SQLITE_MISUSE: Statement is already finalized');
+        if (isFunc(done)) setImmediate(() => done(null));
+        return adapted;
+      },
+    };
+
+    return adapted as unknown as Statement;
+  };
+
+  const db = {
+    run(sql: string, params: Params, done: Function) {
+      execute(
+        () => run(compile(sql), args(params)),
+        (result) => done.call(result, null),
+        (error) => done.call({}, error)
+      );
+
+      return db;
+    },
+    all(sql: string, params: Params, done: Function) {
+      execute(
+        () => all(compile(sql), args(params)),
+        (rows) => done(null, rows),
+        (error) => done(error)
+      );
+
+      return db;
+    },
+    exec(sql: string, done: (error: Error | null) => void) {
+      execute(
+        () => native.exec(sql),
+        () => done(null),
+        done
+      );
+      return db;
+    },
+    prepare,
+    configure(option: string, value: number) {
+      if (option === 'busyTimeout') {
+        native.exec(`PRAGMA busy_timeout = ${Number(value)}`);
+      }
+    },
+    close(done: (error: Error | null) => void) {
+      execute(
+        () => native.close(),
+        () => done(null),
+        done
+      );
+      return db;
+    },
+    // The sqlite3 backup API, each step copying the whole database
+    backup(
+      file: string,
+      destination: string,
+      source: string,
+      toFile: boolean,
+      done: (error: Error | null) => void
+    ) {
+      let target: string;
+      let failure: Error = null;
+
+      // Restores copy the file to the main database file, with their own connection
+      if (!toFile) {
+        try {
+          release();
+          target = native
+            .prepare('PRAGMA database_list')
+            .all()
+            .find((schema) => schema.name === 'main').file;
+        } catch (error) {
+          failure = normalize(error);
+        }
+
+        if (target === '') {
+          failure = new Error(
+            `The ${name} engine cannot restore in-memory databases`
+          );
+        }
+      }
+
+      // Copies the main database to the file, or the file to the main database file
+      const copy = (
+        pages: number,
+        progress: (progress: SyncProgress) => void
+      ): Promise<unknown> => {
+        if (toFile) {
+          release();
+          return engine.backup(native, file, pages, progress);
+        }
+
+        let db: SyncDatabase;
+
+        try {
+          db = engine.open(file, 'readonly');
+        } catch (error) {
+          return Promise.reject(error);
+        }
+
+        return engine
+          .backup(db, target, pages, progress)
+          .finally(() => db.close());
+      };
+
+      const handle: Backup = {
+        completed: false,
+        failed: false,
+        remaining: -1,
+        pageCount: -1,
+        step(pages: number, done: (error: Error | null) => void) {
+          copy(pages, (progress) => {
+            handle.pageCount = progress.totalPages;
+            handle.remaining = progress.remainingPages;
+          }).then(
+            () => {
+              handle.completed = true;
+              handle.remaining = 0;
+              if (handle.pageCount < 0) handle.pageCount = 0;
+              done(null);
+            },
+            (error) => {
+              const failure = normalize(error);
+
+              // Busy steps can be retried, like in sqlite3
+              handle.failed = !isBusy(failure);
+              done(failure);
+            }
+          );
+        },
+        finish(done?: (error: Error | null) => void) {
+          if (isFunc(done)) setImmediate(() => done(null));
+        },
+      };
+
+      setImmediate(() => done(failure));
+
+      return handle;
+    },
+    function(name: string, definition: SQLiteFunction) {
+      native.function(
+        name,
+        {
+          deterministic: definition.deterministic === true,
+          varargs: definition.arity === -1,
+        },
+        withArity(definition.fn, definition.arity)
+      );
+    },
+    aggregate(name: string, definition: SQLiteAggregate) {
+      const arity = isDefined(definition.arity)
+        ? definition.arity + 1
+        : undefined;
+
+      native.aggregate(name, {
+        start: isDefined(definition.start) ? definition.start : null,
+        step: withArity(definition.step, arity),
+        ...(isDefined(definition.result) ? { result: definition.result } : {}),
+        deterministic: definition.deterministic === true,
+        varargs: definition.arity === -1,
+      });
+    },
+  };
+
+  execute(
+    () => {
+      native = engine.open(path, mode);
+
+      if (isDefined(types) && !isFunc(native.prepare('SELECT 1;').columns)) {
+        native.close();
+        throw new Error('This Node.js version cannot read column types');
+      }
+    },
+    () => callback(null),
+    callback
+  );
+
+  return db as unknown as Handle;
+}
+
+/**
+ * Opens a database with the given engine.
+ * @param engine The engine name.
+ * @param path The database path.
+ * @param mode The open mode, `create` by default.
+ * @param uri Whether file names can be `file:` URIs.
+ * @param decoding How rows are decoded, only supported by the synchronous engines.
+ * @param callback Called once the database is opened, or fails to open.
+ * @returns The database, which exposes the sqlite3 API whatever the engine.
+ * @throws If the `sqlite3` package cannot be loaded.
+ * @note
+ * - sqlite3 databases are opened with the sqlite3 defaults unless a mode is given or URIs are enabled.
+ * - `sqlite3` is only loaded once used, so the other engines work without its native build.
+ */
+export function open(
+  engine: SQLiteEngine,
+  path: string,
+  mode: SQLiteMode | undefined,
+  uri: boolean,
+  decoding: Decoding,
+  callback: (error: Error | null) => void
+): Handle {
+  if (engine !== 'sqlite3') {
+    return adapt(engine, path, mode || 'create', decoding, callback);
+  }
+
+  const sqlite3: typeof import('sqlite3') = require('sqlite3');
+
+  if (!isDefined(mode) && !uri) {
+    return new sqlite3.Database(path, callback) as Handle;
+  }
+
+  const modes: Record<SQLiteMode, number> = {
+    readonly: sqlite3.OPEN_READONLY,
+    readwrite: sqlite3.OPEN_READWRITE,
+    create: sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE,
+  };
+
+  const flags = modes[mode || 'create'] | (uri ? sqlite3.OPEN_URI : 0);
+  return new sqlite3.Database(path, flags, callback) as Handle;
+}
+
+/**
+ * Installs functions and aggregates on a database opened with a synchronous engine.
+ * @param db The database.
+ * @param functions The scalar functions by name.
+ * @param aggregates The aggregate functions by name.
+ * @param regexp Whether to install the `REGEXP` operator.
+ * @throws If a function cannot be installed.
+ */
+export function install(
+  db: Database,
+  functions: Record<string, SQLiteFunction['fn'] | SQLiteFunction>,
+  aggregates: Record<string, SQLiteAggregate>,
+  regexp: boolean
+): void {
+  const adapted = db as unknown as {
+    function(name: string, definition: SQLiteFunction): void;
+    aggregate(name: string, definition: SQLiteAggregate): void;
+  };
+
+  Object.entries(functions || {}).forEach(([name, fn]) => {
+    const definition = isFunc(fn)
+      ? { fn: fn as SQLiteFunction['fn'] }
+      : (fn as SQLiteFunction);
+
+    adapted.function(name, definition);
+  });
+
+  Object.entries(aggregates || {}).forEach(([name, aggregate]) => {
+    adapted.aggregate(name, aggregate);
+  });
+
+  if (regexp) adapted.function('regexp', REGEXP);
+}
@@ -0,0 +1,198 @@
+import { QueryError } from '@megaorm/errors';
+import { isArr, isDefined, isNum, isStr } from '@megaorm/test';
+
+/**
+ * The kind of constraint that failed for `SQLITE_CONSTRAINT` errors.
+ */
+export type SQLiteConstraint =
+  'unique' | 'primaryKey' | 'foreignKey' | 'notNull' | 'check';
+
+/**
+ * Details attached to the errors thrown by the SQLite driver.
+ */
+export interface SQLiteErrorDetails {
+  /**
+   * The SQLite error code, like `SQLITE_CONSTRAINT` or `SQLITE_BUSY`.
+   */
+  code?: string;
+
+  /**
+   * The SQLite result code number, like `19` for `SQLITE_CONSTRAINT`.
+   */
+  errno?: number;
+
+  /**
+   * The kind of constraint that failed for `SQLITE_CONSTRAINT` errors.
+   * @note The `sqlite3` engine reports failed primary keys as `unique`, only the other engines have the extended code that tells them apart.
+   */
+  constraint?: SQLiteConstraint;
+
+  /**
+   * The SQL that failed.
+   */
+  sql?: string;
+
+  /**
+   * The values bound to the SQL, redacted if the driver redacts values.
+   */
+  values?: unknown;
+
+  /**
+   * The original error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * An error thrown by the SQLite driver, with the details of the original error.
+ */
+export type SQLiteError<T extends Error = Error> = T & SQLiteErrorDetails;
+
+/**
+ * Thrown when a query is interrupted because it ran longer than its timeout.
+ */
+export class QueryTimeoutError extends QueryError {}
+
+/**
+ * Thrown when a query is interrupted because its signal was aborted.
+ */
+export class QueryAbortedError extends QueryError {}
+
+/**
+ * Thrown when a backup, restore or `VACUUM INTO` fails.
+ */
+export class BackupError extends QueryError {}
+
+/**
+ * Thrown when a query that changes the database runs on a read-only connection.
+ */
+export class ReadOnlyError extends QueryError {}
+
+/**
+ * Thrown when a migration cannot be loaded, planned or applied.
+ */
+export class MigrationError extends QueryError {}
+
+/**
+ * The text used in place of redacted values.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Matches the start of constraint failure messages, like `UNIQUE constraint failed: users.email`.
+ */
+const CONSTRAINT =
+  /^(?:SQLITE_CONSTRAINT: )?(UNIQUE|NOT NULL|CHECK|FOREIGN KEY) constraint failed/;
+
+/**
+ * The constraint kinds by the name SQLite uses in failure messages.
+ */
+const CONSTRAINTS: Record<string, SQLiteConstraint> = {
+  UNIQUE: 'unique',
+  'NOT NULL': 'notNull',
+  CHECK: 'check',
+  'FOREIGN KEY': 'foreignKey',
+};
+
+/**
+ * Finds the kind of constraint that failed from a `SQLITE_CONSTRAINT` error.
+ * @param code The SQLite error code.
+ * @param message The error message.
+ * @returns The constraint kind, or `undefined` if the error is not a known constraint failure.
+ */
+function constraint(code: string, message: string): SQLiteConstraint {
+  if (code !== 'SQLITE_CONSTRAINT' || !isStr(message)) return undefined;
+
+  const match = message.match(CONSTRAINT);
+  return match === null ? undefined : CONSTRAINTS[match[1]];
+}
+
+/**
+ * Checks if the given value is an error, including errors created in another realm.
+ * @param value The value to check.
+ * @returns `true` if the value is an error, `false` otherwise.
+ * @note Native modules like sqlite3 can create errors that fail `instanceof Error`, in a VM context for example.
+ */
+export function isError(value: unknown): boolean {
+  return (
+    value instanceof Error ||
+    Object.prototype.toString.call(value) === '[object Error]'
+  );
+}
+
+/**
+ * Checks if the given error is caused by a busy or locked database.
+ * @param error The error to check.
+ * @returns `true` if the error is `SQLITE_BUSY` or `SQLITE_LOCKED`, `false` otherwise.
+ */
+export function isBusy(error: any): boolean {
+  if (!isError(error)) return false;
+
+  return /^SQLITE_(BUSY|LOCKED)/.test(
+    isStr(error.code) ? error.code : error.message
+  );
+}
+
+/**
+ * Replaces every query value with a placeholder, keeping the shape of the values.
+ * @param values The query values.
+ * @returns The redacted values.
+ */
+export function redact(values: unknown): unknown {
+  if (!isDefined(values)) return values;
+  if (isArr(values)) return (values as Array<unknown>).map(() => REDACTED);
+
+  if (typeof values === 'object' && values !== null) {
+    return Object.keys(values).reduce(
+      (redacted, key) => {
+        redacted[key] = REDACTED;
+        return redacted;
+      },
+      {} as Record<string, string>
+    );
+  }
+
+  return REDACTED;
+}
+
+/**
+ * Creates a driver error of the given type from the given error, keeping its details.
+ * @param Type The error class, like `QueryError`.
+ * @param error The original error: a sqlite3 error, or a driver error to convert.
+ * @param context The message to use instead of the original one, and the SQL and values that failed.
+ * @returns The driver error with the code, errno, constraint, SQL, values and cause.
+ * @note
+ * - When converting a driver error, its details are kept and its cause becomes the cause of the new error.
+ * - The SQL and values from the context take precedence over the ones of the original error.
+ */
+export function wrap<T extends Error>(
+  Type: new (message?: string) => T,
+  error: any,
+  context: { message?: string; sql?: string; values?: unknown } = {}
+): SQLiteError<T> {
+  const original = isError(error) ? error : new Error(String(error));
+  const message = isDefined(context.message)
+    ? context.message
+    : original.message;
+
+  const wrapped = new Type(message) as SQLiteError<T>;
+
+  if (isStr(original.code)) wrapped.code = original.code;
+  if (isNum(original.errno)) wrapped.errno = original.errno;
+
+  const kind = isDefined(original.constraint)
+    ? original.constraint
+    : constraint(original.code, original.message);
+
+  if (isDefined(kind)) wrapped.constraint = kind;
+
+  const sql = isDefined(context.sql) ? context.sql : original.sql;
+  if (isDefined(sql)) wrapped.sql = sql;
+
+  const values = 'values' in context ? context.values : original.values;
+  if (isDefined(values)) wrapped.values = values;
+
+  wrapped.cause = isDefined(original.cause) ? original.cause : original;
+
+  return wrapped;
+}
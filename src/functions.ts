@@ -0,0 +1,140 @@
+import { isBool, isDefined, isFunc, isInt, isObj } from '@megaorm/test';
+import { isArr, isStr } from '@megaorm/test';
+
+/**
+ * A scalar function callable from SQL, like `slugify(title)`.
+ */
+export interface SQLiteFunction {
+  /**
+   * The implementation, called with the SQL arguments for every row.
+   */
+  fn: (...args: Array<any>) => any;
+
+  /**
+   * The number of arguments, `-1` for any number, defaults to the implementation length.
+   */
+  arity?: number;
+
+  /**
+   * Whether the function always returns the same result for the same arguments, defaults to `false`.
+   * Deterministic functions can be used in indexes and are optimized by the query planner.
+   */
+  deterministic?: boolean;
+}
+
+/**
+ * An aggregate function callable from SQL, like `median(price)`.
+ */
+export interface SQLiteAggregate {
+  /**
+   * The initial accumulator, or a function that creates it for every group, defaults to `null`.
+   */
+  start?: any;
+
+  /**
+   * Called for every row of the group with the accumulator and the SQL arguments.
+   * @returns The new accumulator.
+   */
+  step: (accumulator: any, ...args: Array<any>) => any;
+
+  /**
+   * Called once per group with the accumulator, defaults to returning the accumulator.
+   * @returns The aggregate result.
+   */
+  result?: (accumulator: any) => any;
+
+  /**
+   * The number of arguments, `-1` for any number, defaults to the step length minus one.
+   */
+  arity?: number;
+
+  /**
+   * Whether the aggregate always returns the same result for the same rows, defaults to `false`.
+   */
+  deterministic?: boolean;
+}
+
+/**
+ * The largest number of arguments SQLite accepts for a function.
+ */
+const MAX_ARITY = 127;
+
+/**
+ * Checks if the given value is a valid SQL function name.
+ * @param name The value to check.
+ * @returns `true` if the name is a valid identifier.
+ */
+export function isFunctionName(name: any): boolean {
+  return isStr(name) && /^[a-z_][a-z0-9_]*$/i.test(name);
+}
+
+/**
+ * Checks if the given value is a valid function arity.
+ * @param arity The value to check.
+ * @returns `true` if the arity is `undefined`, `-1` or a supported number of arguments.
+ */
+function isArity(arity: any): boolean {
+  return (
+    !isDefined(arity) || (isInt(arity) && arity >= -1 && arity <= MAX_ARITY)
+  );
+}
+
+/**
+ * Checks if the given value is a valid scalar function.
+ * @param fn The value to check.
+ * @returns `true` if the value is a function, or a function definition.
+ */
+export function isFunction(fn: any): boolean {
+  if (isFunc(fn)) return true;
+  if (!isObj(fn) || isArr(fn)) return false;
+
+  return (
+    isFunc(fn.fn) &&
+    isArity(fn.arity) &&
+    (!isDefined(fn.deterministic) || isBool(fn.deterministic))
+  );
+}
+
+/**
+ * Checks if the given value is a valid aggregate function.
+ * @param aggregate The value to check.
+ * @returns `true` if the value is an aggregate definition.
+ */
+export function isAggregate(aggregate: any): boolean {
+  if (!isObj(aggregate) || isArr(aggregate)) return false;
+
+  return (
+    isFunc(aggregate.step) &&
+    (!isDefined(aggregate.result) || isFunc(aggregate.result)) &&
+    isArity(aggregate.arity) &&
+    (!isDefined(aggregate.deterministic) || isBool(aggregate.deterministic))
+  );
+}
+
+/**
+ * The implementation of the `REGEXP` operator, where `value REGEXP pattern` calls `regexp(pattern, value)`.
+ * @note
+ * - Patterns are compiled once and cached, up to 100 patterns.
+ * - `NULL` patterns or values give `NULL`, matches give `1` and other values `0`.
+ */
+export const REGEXP: SQLiteFunction = (() => {
+  const patterns = new Map<string, RegExp>();
+
+  return {
+    fn: (pattern: any, value: any) => {
+      if (pattern === null || value === null) return null;
+
+      let regexp = patterns.get(pattern);
+
+      if (!isDefined(regexp)) {
+        regexp = new RegExp(pattern);
+        if (patterns.size >= 100) patterns.clear();
+        patterns.set(pattern, regexp);
+      }
+
+      return regexp.test(String(value)) ? 1 : 0;
+    },
+    arity: 2,
+    deterministic: true,
+  };
+})();
@@ -0,0 +1,174 @@
+import { isDefined } from '@megaorm/test';
+import { isError } from './errors';
+
+/**
+ * Details of an executed query.
+ */
+export interface SQLiteQueryEvent {
+  /**
+   * The id of the connection that ran the query.
+   */
+  connection: Symbol;
+
+  /**
+   * The SQL of the query.
+   */
+  sql: string;
+
+  /**
+   * The values bound to the SQL, redacted if the driver redacts values.
+   */
+  values: unknown;
+
+  /**
+   * Milliseconds the query took to run.
+   */
+  duration: number;
+
+  /**
+   * The number of rows returned, for queries that produce rows.
+   */
+  rows?: number;
+
+  /**
+   * The number of rows inserted, updated or deleted, for queries that do not produce rows.
+   */
+  changes?: number;
+}
+
+/**
+ * Details of a failed query.
+ */
+export interface SQLiteQueryErrorEvent {
+  /**
+   * The id of the connection that ran the query.
+   */
+  connection: Symbol;
+
+  /**
+   * The SQL of the query.
+   */
+  sql: string;
+
+  /**
+   * The values bound to the SQL, redacted if the driver redacts values.
+   */
+  values: unknown;
+
+  /**
+   * Milliseconds the query ran before failing.
+   */
+  duration: number;
+
+  /**
+   * The error the query rejects with.
+   */
+  error: Error;
+}
+
+/**
+ * Details of an opened or closed connection.
+ */
+export interface SQLiteConnectionEvent {
+  /**
+   * The id of the connection.
+   */
+  connection: Symbol;
+
+  /**
+   * Milliseconds it took to open or close the connection.
+   */
+  duration: number;
+}
+
+/**
+ * Details of a transaction step.
+ */
+export interface SQLiteTransactionEvent {
+  /**
+   * The id of the connection.
+   */
+  connection: Symbol;
+
+  /**
+   * The transaction step.
+   */
+  action: 'begin' | 'commit' | 'rollback';
+
+  /**
+   * The nesting level of the transaction, `1` for the outermost one.
+   */
+  depth: number;
+}
+
+/**
+ * Callbacks the driver calls as it runs queries and manages connections.
+ */
+export interface SQLiteHooks {
+  /**
+   * Called after every successful query.
+   */
+  onQuery?: (event: SQLiteQueryEvent) => void;
+
+  /**
+   * Called after every failed query.
+   */
+  onQueryError?: (event: SQLiteQueryErrorEvent) => void;
+
+  /**
+   * Called after every query that took longer than the slow query threshold.
+   */
+  onSlowQuery?: (event: SQLiteQueryEvent) => void;
+
+  /**
+   * Called once a connection is opened.
+   */
+  onConnect?: (event: SQLiteConnectionEvent) => void;
+
+  /**
+   * Called once a connection is closed.
+   */
+  onClose?: (event: SQLiteConnectionEvent) => void;
+
+  /**
+   * Called once a transaction begins, commits or rolls back.
+   */
+  onTransaction?: (event: SQLiteTransactionEvent) => void;
+}
+
+/**
+ * The supported hook names.
+ */
+export const HOOKS: Array<keyof SQLiteHooks> = [
+  'onQuery',
+  'onQueryError',
+  'onSlowQuery',
+  'onConnect',
+  'onClose',
+  'onTransaction',
+];
+
+/**
+ * Calls the given hook with the given event.
+ * @param hooks The driver hooks.
+ * @param name The hook name.
+ * @param event The event details.
+ * @note Errors thrown by hooks never fail a query, they are reported as process warnings of type `SQLiteHookWarning` instead.
+ */
+export function emit<K extends keyof SQLiteHooks>(
+  hooks: SQLiteHooks,
+  name: K,
+  event: Parameters<SQLiteHooks[K]>[0]
+): void {
+  const hook = hooks[name] as (event: unknown) => void;
+  if (!isDefined(hook)) return;
+
+  try {
+    hook(event);
+  } catch (error) {
+    process.emitWarning(
+      `The ${name} hook failed: ${isError(error) ? error.message : String(error)}`,
+      'SQLiteHookWarning'
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { Database } from 'sqlite3';
+import type { Statement } from 'sqlite3';
 import { MegaDriver } from '@megaorm/driver';
 import { MegaConnection, Rows } from '@megaorm/driver';
 import { QueryError } from '@megaorm/errors';
@@ -7,7 +7,544 @@ import { CloseConnectionError } from '@megaorm/errors';
 import { BeginTransactionError } from '@megaorm/errors';
 import { CommitTransactionError } from '@megaorm/errors';
 import { RollbackTransactionError } from '@megaorm/errors';
-import { isArr, isDefined, isError, isNum, isStr } from '@megaorm/test';
+import { isArr, isBool, isDefined, isFunc, isInt } from '@megaorm/test';
+import { isNum, isObj, isStr } from '@megaorm/test';
+import { classify, placeholders, split } from './sql';
+import { BackupError, QueryAbortedError, QueryTimeoutError } from './errors';
+import { ReadOnlyError, isBusy, isError, redact, wrap } from './errors';
+import { isPlain, parameters } from './values';
+import { Params, SQLiteDateFormat, SQLiteValues } from './values';
+import { SQLitePreparedStatement, SQLiteRunResult } from './statement';
+import { statement } from './statement';
+import { stream } from './stream';
+import { Schedule, direct, queue } from './queue';
+import { HOOKS, SQLiteHooks, emit } from './hooks';
+import { performance } from 'perf_hooks';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SQLiteBackupOptions, backup } from './backup';
+import { SQLiteAttachOptions, SQLiteAttachedDatabase } from './attach';
+import { SQLiteAttachment, attached, attachment } from './attach';
+import { isAlias, isAttachment, source } from './attach';
+import { SQLiteAggregate, SQLiteFunction } from './functions';
+import { isAggregate, isFunction, isFunctionName } from './functions';
+import { ENGINES, MODES, SQLiteEngine, install, open } from './engine';
+import { Decoding, Handle } from './engine';
+import { SQLiteSchema, introspect } from './schema';
+import { Caster, SQLiteCast, casters, decodeAll, isCast } from './casts';
+import { typeName } from './casts';
+import { Readable } from 'stream';
+
+export type { SQLiteConstraint, SQLiteError } from './errors';
+export type { SQLiteErrorDetails } from './errors';
+export { BackupError, QueryAbortedError, QueryTimeoutError } from './errors';
+export { MigrationError, ReadOnlyError } from './errors';
+export type { SQLiteDateFormat, SQLiteValue, SQLiteValues } from './values';
+export type { SQLitePreparedStatement, SQLiteRunResult } from './statement';
+export type { SQLitePoolMode, SQLitePoolOptions } from './pool';
+export type { SQLiteAcquireOptions } from './pool';
+export type { SQLiteHooks, SQLiteQueryEvent } from './hooks';
+export type { SQLiteQueryErrorEvent, SQLiteConnectionEvent } from './hooks';
+export type { SQLiteTransactionEvent } from './hooks';
+export type { SQLiteBackupOptions, SQLiteBackupProgress } from './backup';
+export type { SQLiteAttachOptions, SQLiteAttachment } from './attach';
+export type { SQLiteAttachedDatabase } from './attach';
+export type { SQLiteAggregate, SQLiteFunction } from './functions';
+export { REGEXP } from './functions';
+export type { SQLiteEngine } from './engine';
+export type { SQLiteCast } from './casts';
+export type { SQLiteSchema, SQLiteTable, SQLiteColumn } from './schema';
+export type { SQLiteIndex, SQLiteForeignKey, SQLiteTrigger } from './schema';
+export type { SQLiteMigration, SQLiteMigrationStep } from './migrate';
+export type { SQLiteMigrationState, SQLiteMigrationStatus } from './migrate';
+export type { SQLiteMigrationTracking, SQLiteMigratorOptions } from './migrate';
+export type { SQLiteMigrateOptions, SQLiteRevertOptions } from './migrate';
+export type { SQLiteRebuildOptions } from './migrate';
+export { SQLiteMigrator, rebuild } from './migrate';
+export { SQLitePool } from './pool';
+
+/**
+ * The mode used to open the SQLite database file.
+ * - `readonly`: Opens an existing database for reading only.
+ * - `readwrite`: Opens an existing database for reading and writing.
+ * - `create`: Opens the database for reading and writing, creating it if it does not exist.
+ */
+export type SQLiteMode = 'readonly' | 'readwrite' | 'create';
+
+/**
+ * A PRAGMA value: strings are quoted, numbers are used as is and booleans become `ON` / `OFF`.
+ */
+export type SQLitePragma = string | number | boolean;
+
+/**
+ * How queries that do not produce rows resolve:
+ * - `megaorm`: The inserted ID for single inserts, `undefined` otherwise.
+ * - `detailed`: A `SQLiteRunResult` with the number of changed rows and the last inserted ID.
+ */
+export type SQLiteResultMode = 'megaorm' | 'detailed';
+
+/**
+ * Options for a single query.
+ */
+export interface SQLiteQueryOptions {
+  /**
+   * How the query resolves if it does not produce rows, defaults to the driver result mode.
+   */
+  resultMode?: SQLiteResultMode;
+
+  /**
+   * Milliseconds before the query is interrupted and rejects with a `QueryTimeoutError`.
+   * @note Requires the `sqlite3` engine, synchronous engines block the event loop while a query runs.
+   */
+  timeout?: number;
+
+  /**
+   * Signal that interrupts the query when aborted, rejecting with a `QueryAbortedError`.
+   * @note Requires the `sqlite3` engine, synchronous engines block the event loop while a query runs.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * How the columns of the rows are decoded, by column name, like `{ active: 'boolean' }`.
+   */
+  casts?: Record<string, SQLiteCast>;
+}
+
+/**
+ * Options for streaming rows.
+ */
+export interface SQLiteStreamOptions {
+  /**
+   * How the columns of the rows are decoded, by column name, like `{ active: 'boolean' }`.
+   */
+  casts?: Record<string, SQLiteCast>;
+}
+
+/**
+ * How a transaction acquires its locks:
+ * - `deferred`: Locks are acquired when the database is first read or written.
+ * - `immediate`: A write lock is acquired immediately, other connections can still read.
+ * - `exclusive`: An exclusive lock is acquired immediately.
+ */
+export type SQLiteTransactionMode = 'deferred' | 'immediate' | 'exclusive';
+
+/**
+ * Options for beginning a transaction.
+ */
+export interface SQLiteTransactionOptions {
+  /**
+   * How the transaction acquires its locks, defaults to the driver transaction mode.
+   */
+  mode?: SQLiteTransactionMode;
+}
+
+/**
+ * Options for running a callback in a transaction.
+ */
+export interface SQLiteTransactionCallbackOptions extends SQLiteTransactionOptions {
+  /**
+   * How many times to retry the callback when the database is busy or locked, defaults to `0`.
+   */
+  retries?: number;
+
+  /**
+   * Milliseconds to wait before the first retry, doubled on every retry, defaults to `50`.
+   */
+  delay?: number;
+}
+
+/**
+ * Options used to run a batch.
+ */
+export interface SQLiteBatchOptions {
+  /**
+   * How many parameter sets are executed before waiting for their results, defaults to `500`.
+   */
+  chunkSize?: number;
+}
+
+/**
+ * The summary of a batch.
+ */
+export interface SQLiteBatchResult {
+  /**
+   * The number of parameter sets executed.
+   */
+  count: number;
+
+  /**
+   * The total number of rows inserted, updated or deleted.
+   */
+  changes: number;
+
+  /**
+   * The rowid of the last inserted row, or `undefined` if the batch was empty.
+   */
+  lastID: number | undefined;
+
+  /**
+   * The number of chunks the parameter sets were split into.
+   */
+  chunks: number;
+}
+
+/**
+ * SQLite driver options.
+ */
+export interface SQLiteOptions {
+  /**
+   * SQLite database file path like `./database.sqlite`, or `:memory:` for an in-memory database.
+   */
+  path: string;
+
+  /**
+   * The mode used to open the database, defaults to `create`.
+   */
+  mode?: SQLiteMode;
+
+  /**
+   * The library used to access the database, defaults to `sqlite3`.
+   */
+  engine?: SQLiteEngine;
+
+  /**
+   * Whether to apply `PRAGMA query_only`, so connections cannot change the database, defaults to `false`.
+   */
+  queryOnly?: boolean;
+
+  /**
+   * Number of milliseconds to wait for a locked database before failing with `SQLITE_BUSY`.
+   */
+  busyTimeout?: number;
+
+  /**
+   * Whether to enforce foreign key constraints, defaults to `true`.
+   */
+  foreignKeys?: boolean;
+
+  /**
+   * PRAGMA statements applied on every connection, like `{ journal_mode: 'WAL' }`.
+   */
+  pragmas?: Record<string, SQLitePragma>;
+
+  /**
+   * Databases attached on every connection, by alias, like `{ archive: './archive.sqlite' }`.
+   */
+  attach?: Record<string, string | SQLiteAttachment>;
+
+  /**
+   * Whether file names can be `file:` URIs, like `file:./db.sqlite?cache=shared`, defaults to `false`.
+   * Databases can only be attached in read-only mode with URIs enabled.
+   * @note `node:sqlite` always reads URIs, and `better-sqlite3` cannot read them.
+   */
+  uri?: boolean;
+
+  /**
+   * Scalar functions installed on every connection, by name, like `{ slugify: (title) => ... }`.
+   * @note Requires the `node:sqlite` or `better-sqlite3` engine, the default `sqlite3` engine cannot register functions.
+   */
+  functions?: Record<string, SQLiteFunction['fn'] | SQLiteFunction>;
+
+  /**
+   * Aggregate functions installed on every connection, by name.
+   * @note Requires the `node:sqlite` or `better-sqlite3` engine, the default `sqlite3` engine cannot register functions.
+   */
+  aggregates?: Record<string, SQLiteAggregate>;
+
+  /**
+   * Whether to install the `REGEXP` operator, using JavaScript regular expressions, defaults to `false`.
+   * @note Requires the `node:sqlite` or `better-sqlite3` engine, the default `sqlite3` engine cannot register functions.
+   * @note There is no equivalent for collations, no engine can register one.
+   */
+  regexp?: boolean;
+
+  /**
+   * How `Date` query values are stored, defaults to `iso`.
+   */
+  dateFormat?: SQLiteDateFormat;
+
+  /**
+   * How the columns of every row are decoded, by declared column type, like `{ BOOLEAN: 'boolean', JSON: 'json' }`.
+   */
+  types?: Record<string, SQLiteCast>;
+
+  /**
+   * Whether integers beyond `Number.MAX_SAFE_INTEGER` are read as `bigint`, defaults to `false`.
+   */
+  safeIntegers?: boolean;
+
+  /**
+   * How queries that do not produce rows resolve, defaults to `megaorm`.
+   */
+  resultMode?: SQLiteResultMode;
+
+  /**
+   * How transactions acquire their locks, defaults to `deferred`.
+   */
+  transactionMode?: SQLiteTransactionMode;
+
+  /**
+   * Whether to redact the query values attached to errors and hook events, defaults to `false`.
+   */
+  redactValues?: boolean;
+
+  /**
+   * Callbacks called as the driver runs queries and manages connections.
+   */
+  hooks?: SQLiteHooks;
+
+  /**
+   * Milliseconds after which a query is reported to the `onSlowQuery` hook, defaults to `1000`.
+   */
+  slowQueryThreshold?: number;
+
+  /**
+   * Number of prepared statements cached by each connection to run queries, defaults to `0` (disabled).
+   */
+  statementCache?: number;
+}
+
+/**
+ * A MegaORM connection with SQLite specific query values and options.
+ */
+export interface SQLiteConnection extends MegaConnection {
+  query(
+    sql: string,
+    values?: SQLiteValues
+  ): ReturnType<MegaConnection['query']>;
+  query(
+    sql: string,
+    values: SQLiteValues | undefined,
+    options: SQLiteQueryOptions
+  ): Promise<Rows | number | SQLiteRunResult | undefined>;
+
+  /**
+   * Whether a transaction is open on the connection.
+   */
+  readonly inTransaction: boolean;
+
+  /**
+   * Begins a transaction on the connection.
+   * @param options The transaction mode.
+   * @returns A `Promise` that resolves once the transaction is open.
+   * @note The transaction is not scoped: every operation issued on the connection runs in it until it is committed or rolled back. Use `transaction()` to keep other callers out.
+   */
+  beginTransaction(options?: SQLiteTransactionOptions): Promise<void>;
+
+  /**
+   * Prepares the given SQL, so it can be executed many times without being parsed again.
+   * @param sql The SQL statement.
+   * @returns A `Promise` that resolves with the prepared statement.
+   * @note Prepared statements are finalized when the connection is closed.
+   */
+  prepare(sql: string): Promise<SQLitePreparedStatement>;
+
+  /**
+   * Executes the given SQL and streams the rows one at a time, instead of loading them all in memory.
+   * @param sql The SQL statement.
+   * @param values The values to bind.
+   * @param options How the columns of the rows are decoded.
+   * @returns A `Readable` in object mode, which can also be consumed with `for await`.
+   * @note
+   * - Rows are fetched as the consumer reads them, so slow consumers apply backpressure.
+   * - The statement is finalized when the stream ends, fails or is destroyed, like when breaking out of `for await`.
+   */
+  stream(
+    sql: string,
+    values?: SQLiteValues,
+    options?: SQLiteStreamOptions
+  ): Readable;
+
+  /**
+   * Executes the given SQL once for each set of values, in a single transaction.
+   * @param sql The SQL statement, prepared once for the whole batch.
+   * @param rows The sets of values to bind, one per execution.
+   * @param options The chunk size.
+   * @returns A `Promise` that resolves with the summary of the batch once it is committed.
+   * @note
+   * - If any execution fails, the whole batch is rolled back and the promise rejects with the error.
+   * - Inside a transaction, the batch runs in a nested transaction.
+   */
+  batch(
+    sql: string,
+    rows: Array<SQLiteValues>,
+    options?: SQLiteBatchOptions
+  ): Promise<SQLiteBatchResult>;
+
+  /**
+   * Executes the given SQL script, which can contain multiple statements.
+   * @param script The SQL statements, separated by semicolons.
+   * @returns A `Promise` that resolves once every statement is executed.
+   * @note
+   * - Scripts cannot have query values.
+   * - Statements run until one fails, the previous ones are not undone unless the script runs in a transaction.
+   * - On read-only connections, scripts with a statement that changes the database reject with a `ReadOnlyError` before running.
+   */
+  exec(script: string): Promise<void>;
+
+  /**
+   * Copies the database to the given file, while other connections keep reading and writing.
+   * @param path The destination file path, overwritten if it exists.
+   * @param options The number of pages per step and the progress callback.
+   * @returns A `Promise` that resolves once the backup is complete.
+   * @throws `BackupError` If the backup fails.
+   * @note The backup waits for the operations issued before it on the connection, and the ones issued after it wait until it is complete.
+   */
+  backup(path: string, options?: SQLiteBackupOptions): Promise<void>;
+
+  /**
+   * Replaces the database with the content of the given file.
+   * @param path The source file path, like a file created by `backup()`.
+   * @param options The number of pages per step and the progress callback.
+   * @returns A `Promise` that resolves once the restore is complete.
+   * @throws `BackupError` If the restore fails.
+   * @throws `ReadOnlyError` If the connection is read-only.
+   * @note Other operations on the connection wait until the restore is complete.
+   */
+  restore(path: string, options?: SQLiteBackupOptions): Promise<void>;
+
+  /**
+   * Writes a vacuumed copy of the database to the given file, with `VACUUM INTO`.
+   * @param path The destination file path, which must not exist.
+   * @returns A `Promise` that resolves once the copy is written.
+   * @throws `BackupError` If the copy fails.
+   */
+  vacuumInto(path: string): Promise<void>;
+
+  /**
+   * Attaches the given database file, so its tables can be queried as `alias.table`.
+   * @param path The database file path, created if it does not exist unless attached in read-only mode.
+   * @param alias The schema name, a valid identifier other than `main` and `temp`.
+   * @param options Whether to attach the database in read-only mode.
+   * @returns A `Promise` that resolves once the database is attached.
+   * @note Databases cannot be attached or detached inside a transaction.
+   */
+  attach(
+    path: string,
+    alias: string,
+    options?: SQLiteAttachOptions
+  ): Promise<void>;
+
+  /**
+   * Detaches the database attached with the given alias.
+   * @param alias The schema name of the attached database.
+   * @returns A `Promise` that resolves once the database is detached.
+   */
+  detach(alias: string): Promise<void>;
+
+  /**
+   * Lists the databases attached to the connection.
+   * @returns A `Promise` that resolves with the alias and path of every attached database.
+   * @note The `main` and `temp` databases are not included.
+   */
+  listAttached(): Promise<Array<SQLiteAttachedDatabase>>;
+
+  /**
+   * Reads the tables, views, columns, indexes, foreign keys and triggers of a database.
+   * @param database The schema name, `main` by default, `temp` or the alias of an attached database.
+   * @returns The schema reader, which runs its queries on the connection.
+   * @example
+   *
+   * const columns = await connection.schema().columns('users');
+   * const tables = await connection.schema('archive').tables();
+   */
+  schema(database?: string): SQLiteSchema;
+
+  /**
+   * Runs the given callback in a transaction.
+   * @param callback The callback to run, receives a handle that runs its operations in the transaction.
+   * @param options The transaction mode and retry options.
+   * @returns A `Promise` that resolves with the callback result once the transaction is committed.
+   * @note
+   * - Operations issued on the connection wait until the transaction is done, so use the handle inside the callback.
+   * - Operations issued on the connection by the callback itself reject, since they would wait forever.
+   * - The handle rejects every operation once the transaction is done.
+   */
+  transaction<T>(
+    callback: (connection: SQLiteConnection) => T | Promise<T>,
+    options?: SQLiteTransactionCallbackOptions
+  ): Promise<T>;
+}
+
+/**
+ * The connection operations before they are queued.
+ */
+interface Connection extends SQLiteConnection {
+  prepare(sql: string, schedule?: Schedule): Promise<SQLitePreparedStatement>;
+}
+
+/**
+ * The supported date formats.
+ */
+const DATE_FORMATS: Array<SQLiteDateFormat> = ['iso', 'unix', 'millis'];
+
+/**
+ * The supported result modes.
+ */
+const RESULT_MODES: Array<SQLiteResultMode> = ['megaorm', 'detailed'];
+
+/**
+ * The supported transaction modes.
+ */
+const TRANSACTION_MODES: Array<SQLiteTransactionMode> = [
+  'deferred',
+  'immediate',
+  'exclusive',
+];
+
+/**
+ * Builds the name of the savepoint used for a nested transaction.
+ * @param level The nesting level of the transaction, starting from `1`.
+ * @returns The savepoint name.
+ */
+function savepoint(level: number): string {
+  return `megaorm_${level}`;
+}
+
+/**
+ * Checks if the given SQL has placeholders.
+ * @param sql The SQL statement.
+ * @returns `true` if the SQL has named or positional placeholders, `false` otherwise.
+ */
+function bindable(sql: string): boolean {
+  const { named, positional } = placeholders(sql);
+  return named.length > 0 || positional;
+}
+
+/**
+ * Builds the PRAGMA statement for the given name and value.
+ * @param name The PRAGMA name.
+ * @param value The PRAGMA value.
+ * @returns The PRAGMA statement.
+ */
+function pragma(name: string, value: SQLitePragma): string {
+  if (isBool(value)) return `PRAGMA ${name} = ${value ? 'ON' : 'OFF'}`;
+  if (isNum(value)) return `PRAGMA ${name} = ${value}`;
+  return `PRAGMA ${name} = '${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Converts the casts of a query or stream to functions.
+ * @param casts The casts by column name.
+ * @param format How dates are stored.
+ * @returns The functions by column name, or `undefined` if there are no casts.
+ * @throws `QueryError` If the casts are invalid.
+ */
+function columns(
+  casts: Record<string, SQLiteCast>,
+  format: SQLiteDateFormat
+): Record<string, Caster> | undefined {
+  if (!isDefined(casts)) return undefined;
+
+  if (!isPlain(casts)) {
+    throw new QueryError(`Invalid query casts: ${String(casts)}`);
+  }
+
+  Object.entries(casts).forEach(([column, cast]) => {
+    if (!isCast(cast)) throw new QueryError(`Invalid query cast: ${column}`);
+  });
+
+  return casters(casts, format);
+}
 
 /**
  * SQLite driver responsible for creating SQLite connections.
@@ -52,9 +589,15 @@ export class SQLite implements MegaDriver {
    */
   private path: string;
 
+  /**
+   * The SQLite driver options.
+   */
+  private options: SQLiteOptions;
+
   /**
    * Constructs a SQLite driver with the given options.
-   * @param path SQLite database file path like `./database.sqlite`, or `:memory:` for an in-memory database.
+   * @param options SQLite database file path like `./database.sqlite`, `:memory:` for an in-memory database, or the driver options.
+   * @throws `CreateConnectionError` If the options are invalid.
    * @example
    *
    * // Create a new SQLite driver with a file-based database
@@ -63,67 +606,583 @@ export class SQLite implements MegaDriver {
    * // Create a new SQLite driver with an in-memory database
    * const driver = new SQLite(':memory:');
    *
+   * // Create a new SQLite driver with options
+   * const driver = new SQLite({
+   *   path: './database.sqlite',
+   *   mode: 'readwrite',
+   *   busyTimeout: 5000,
+   *   pragmas: { journal_mode: 'WAL', synchronous: 'NORMAL' },
+   * });
+   *
    * @note
    * - **File-based databases** are persistent. You can use them for long-term storage
    * - **In-memory databases** are non-persistent. They are faster because they don't involve file I/O, but all data is lost when the connection is closed or the application stops. Useful for testing or temporary data storage.
    */
-  constructor(path: string) {
-    if (!isStr(path)) {
-      throw new CreateConnectionError(`Invalid SQLite path: ${String(path)}`);
+  constructor(path: string);
+  constructor(options: SQLiteOptions);
+  constructor(path: string | SQLiteOptions) {
+    const options = (isStr(path) ? { path } : path) as SQLiteOptions;
+
+    if (!isObj(options) || isArr(options)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite options: ${String(options)}`
+      );
     }
 
-    this.path = path;
-    this.id = Symbol('SQLite');
-  }
+    if (!isStr(options.path)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite path: ${String(options.path)}`
+      );
+    }
 
-  /**
-   * Creates a new SQLite connection.
-   * @returns A `Promise` that resolves with a new SQLite connection.
-   * @throws  `CreateConnectionError` If connection creation fails.
-   * @example
-   *
-   * // Create a new SQLite driver
-   * const driver = new SQLite(path);
-   *
-   * // Create connection
-   * const connection = await driver.create();
-   *
-   * // Execute your queries
-   * const result = await connection.query(sql, values);
-   * console.log(result);
-   *
-   * // Begin a transaction
-   * await connection.beginTransaction();
-   *
-   * // Commit transaction
-   * await connection.commit();
-   *
-   * // Rollback transaction
-   * await connection.rollback();
-   *
-   * @note
-   * - When using `:memory:` as the path, SQLite creates an in-memory database that is non-persistent.
+    if (isDefined(options.mode) && !MODES.includes(options.mode)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite mode: ${String(options.mode)}`
+      );
+    }
+
+    if (isDefined(options.engine) && !ENGINES.includes(options.engine)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite engine: ${String(options.engine)}`
+      );
+    }
+
+    const engine = options.engine || 'sqlite3';
+
+    if (isDefined(options.uri) && !isBool(options.uri)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite uri option: ${String(options.uri)}`
+      );
+    }
+
+    if (options.uri === true && engine === 'better-sqlite3') {
+      throw new CreateConnectionError(
+        'The better-sqlite3 engine cannot read URI file names'
+      );
+    }
+
+    if (
+      isDefined(options.busyTimeout) &&
+      !(isInt(options.busyTimeout) && options.busyTimeout >= 0)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite busy timeout: ${String(options.busyTimeout)}`
+      );
+    }
+
+    if (isDefined(options.hooks)) {
+      if (!isPlain(options.hooks)) {
+        throw new CreateConnectionError(
+          `Invalid SQLite hooks: ${String(options.hooks)}`
+        );
+      }
+
+      Object.keys(options.hooks).forEach((name) => {
+        if (!HOOKS.includes(name as keyof SQLiteHooks)) {
+          throw new CreateConnectionError(`Unknown SQLite hook: ${name}`);
+        }
+
+        if (!isFunc(options.hooks[name])) {
+          throw new CreateConnectionError(`Invalid SQLite hook: ${name}`);
+        }
+      });
+    }
+
+    if (
+      isDefined(options.slowQueryThreshold) &&
+      !(isNum(options.slowQueryThreshold) && options.slowQueryThreshold >= 0)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite slow query threshold: ${String(options.slowQueryThreshold)}`
+      );
+    }
+
+    if (isDefined(options.redactValues) && !isBool(options.redactValues)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite redact values option: ${String(options.redactValues)}`
+      );
+    }
+
+    if (
+      isDefined(options.statementCache) &&
+      !(isInt(options.statementCache) && options.statementCache >= 0)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite statement cache size: ${String(options.statementCache)}`
+      );
+    }
+
+    if (isDefined(options.queryOnly) && !isBool(options.queryOnly)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite query only option: ${String(options.queryOnly)}`
+      );
+    }
+
+    if (isDefined(options.foreignKeys) && !isBool(options.foreignKeys)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite foreign keys option: ${String(options.foreignKeys)}`
+      );
+    }
+
+    if (
+      isDefined(options.dateFormat) &&
+      !DATE_FORMATS.includes(options.dateFormat)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite date format: ${String(options.dateFormat)}`
+      );
+    }
+
+    if (
+      isDefined(options.resultMode) &&
+      !RESULT_MODES.includes(options.resultMode)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite result mode: ${String(options.resultMode)}`
+      );
+    }
+
+    if (
+      isDefined(options.transactionMode) &&
+      !TRANSACTION_MODES.includes(options.transactionMode)
+    ) {
+      throw new CreateConnectionError(
+        `Invalid SQLite transaction mode: ${String(options.transactionMode)}`
+      );
+    }
+
+    if (isDefined(options.pragmas)) {
+      if (!isObj(options.pragmas) || isArr(options.pragmas)) {
+        throw new CreateConnectionError(
+          `Invalid SQLite pragmas: ${String(options.pragmas)}`
+        );
+      }
+
+      Object.entries(options.pragmas).forEach(([name, value]) => {
+        if (!/^[a-z_][a-z0-9_]*$/i.test(name)) {
+          throw new CreateConnectionError(`Invalid SQLite pragma: ${name}`);
+        }
+
+        if (
+          !isStr(value) &&
+          !isBool(value) &&
+          !(isNum(value) && Number.isFinite(value))
+        ) {
+          throw new CreateConnectionError(
+            `Invalid SQLite pragma value: ${name} = ${String(value)}`
+          );
+        }
+      });
+    }
+
+    if (isDefined(options.attach)) {
+      if (!isObj(options.attach) || isArr(options.attach)) {
+        throw new CreateConnectionError(
+          `Invalid SQLite attachments: ${String(options.attach)}`
+        );
+      }
+
+      Object.entries(options.attach).forEach(([alias, attachment]) => {
+        if (!isAlias(alias)) {
+          throw new CreateConnectionError(
+            `Invalid SQLite attachment alias: ${alias}`
+          );
+        }
+
+        if (!isAttachment(attachment)) {
+          throw new CreateConnectionError(
+            `Invalid SQLite attachment: ${alias}`
+          );
+        }
+
+        if (
+          (attachment as SQLiteAttachment).readonly === true &&
+          options.uri !== true
+        ) {
+          throw new CreateConnectionError(
+            `Read-only attachments require the uri option: ${alias}`
+          );
+        }
+      });
+    }
+
+    [
+      ['function', options.functions, isFunction],
+      ['aggregate', options.aggregates, isAggregate],
+    ].forEach(([kind, definitions, isValid]: [string, any, Function]) => {
+      if (!isDefined(definitions)) return;
+
+      if (!isObj(definitions) || isArr(definitions)) {
+        throw new CreateConnectionError(
+          `Invalid SQLite ${kind}s: ${String(definitions)}`
+        );
+      }
+
+      Object.entries(definitions).forEach(([name, definition]) => {
+        if (!isFunctionName(name)) {
+          throw new CreateConnectionError(
+            `Invalid SQLite ${kind} name: ${name}`
+          );
+        }
+
+        if (!isValid(definition)) {
+          throw new CreateConnectionError(`Invalid SQLite ${kind}: ${name}`);
+        }
+      });
+
+      // sqlite3 has no API to register JavaScript functions
+      if (Object.keys(definitions).length > 0 && engine === 'sqlite3') {
+        throw new CreateConnectionError(
+          `The sqlite3 engine does not support user-defined ${kind}s, use the node:sqlite or better-sqlite3 engine`
+        );
+      }
+    });
+
+    if (isDefined(options.regexp) && !isBool(options.regexp)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite regexp option: ${String(options.regexp)}`
+      );
+    }
+
+    if (options.regexp === true && engine === 'sqlite3') {
+      throw new CreateConnectionError(
+        'The sqlite3 engine does not support the REGEXP operator, use the node:sqlite or better-sqlite3 engine'
+      );
+    }
+
+    if (isDefined(options.types)) {
+      if (!isPlain(options.types)) {
+        throw new CreateConnectionError(
+          `Invalid SQLite types: ${String(options.types)}`
+        );
+      }
+
+      Object.entries(options.types).forEach(([type, cast]) => {
+        if (typeName(type).length === 0) {
+          throw new CreateConnectionError(`Invalid SQLite type name: ${type}`);
+        }
+
+        if (!isCast(cast)) {
+          throw new CreateConnectionError(`Invalid SQLite type cast: ${type}`);
+        }
+      });
+
+      // sqlite3 does not expose the declared types of result columns
+      if (Object.keys(options.types).length > 0 && engine === 'sqlite3') {
+        throw new CreateConnectionError(
+          'The sqlite3 engine does not support casts by declared type'
+        );
+      }
+    }
+
+    if (isDefined(options.safeIntegers) && !isBool(options.safeIntegers)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite safe integers option: ${String(options.safeIntegers)}`
+      );
+    }
+
+    // sqlite3 reads every integer as a number
+    if (options.safeIntegers === true && engine === 'sqlite3') {
+      throw new CreateConnectionError(
+        'The sqlite3 engine does not support safe integers'
+      );
+    }
+
+    this.path = options.path;
+    this.options = { ...options };
+    this.id = Symbol('SQLite');
+  }
+
+  /**
+   * Builds the PRAGMA statements applied on every new connection.
+   * @returns An array of PRAGMA names and statements.
+   */
+  private pragmas(): Array<[string, string]> {
+    const pragmas: Array<[string, string]> = [
+      [
+        'foreign_keys',
+        pragma('foreign_keys', this.options.foreignKeys !== false),
+      ],
+    ];
+
+    if (isDefined(this.options.pragmas)) {
+      Object.entries(this.options.pragmas).forEach(([name, value]) => {
+        pragmas.push([name, pragma(name, value)]);
+      });
+    }
+
+    // Applied last, so the PRAGMA options cannot turn it off
+    if (this.options.queryOnly === true) {
+      pragmas.push(['query_only', pragma('query_only', true)]);
+    }
+
+    return pragmas;
+  }
+
+  /**
+   * Builds the ATTACH statements applied on every new connection.
+   * @returns An array of aliases, statements and file names.
+   */
+  private attachments(): Array<[string, string, string]> {
+    if (!isDefined(this.options.attach)) return [];
+
+    return Object.entries(this.options.attach).map(([alias, value]) => {
+      const { path, readonly } = (
+        isStr(value) ? { path: value } : value
+      ) as SQLiteAttachment;
+      return [alias, attachment(alias), source(path, readonly === true)];
+    });
+  }
+
+  /**
+   * Builds how the engine decodes the rows of every new connection.
+   * @returns The casts by declared type, and whether integers are read as `bigint`.
+   */
+  private decoding(): Decoding {
+    const format = this.options.dateFormat || 'iso';
+    const types = isDefined(this.options.types)
+      ? Object.entries(this.options.types).reduce(
+          (types, [type, cast]) => {
+            types[typeName(type)] = cast;
+            return types;
+          },
+          {} as Record<string, SQLiteCast>
+        )
+      : undefined;
+
+    return {
+      types: casters(types, format),
+      safeIntegers: this.options.safeIntegers === true,
+    };
+  }
+
+  /**
+   * Creates a new SQLite connection.
+   * @returns A `Promise` that resolves with a new SQLite connection.
+   * @throws  `CreateConnectionError` If connection creation fails.
+   * @example
+   *
+   * // Create a new SQLite driver
+   * const driver = new SQLite(path);
+   *
+   * // Create connection
+   * const connection = await driver.create();
+   *
+   * // Execute your queries
+   * const result = await connection.query(sql, values);
+   * console.log(result);
+   *
+   * // Begin a transaction
+   * await connection.beginTransaction();
+   *
+   * // Commit transaction
+   * await connection.commit();
+   *
+   * // Rollback transaction
+   * await connection.rollback();
+   *
+   * @note
+   * - When using `:memory:` as the path, SQLite creates an in-memory database that is non-persistent.
    * - For a file-based database, the path should point to a valid file location like `./database.sqlite`
    * - An in-memory database can be ideal for tests and temporary storage because you lose all data once the application ends.
+   * - The busy timeout and PRAGMA statements from the driver options are applied before the connection resolves.
    */
-  public create(): Promise<MegaConnection> {
+  public create(): Promise<SQLiteConnection> {
     return new Promise((resolve, reject) => {
-      // Create connection using SQLite3
-      const db = new Database(this.path, (error) => {
+      const opened = performance.now();
+
+      const callback = (error: Error) => {
         if (isError(error)) {
-          return reject(new CreateConnectionError(error.message));
+          return reject(wrap(CreateConnectionError, error));
+        }
+
+        try {
+          install(
+            db,
+            this.options.functions,
+            this.options.aggregates,
+            this.options.regexp === true
+          );
+        } catch (error) {
+          return db.close(() =>
+            reject(
+              wrap(CreateConnectionError, error, {
+                message: `Failed to install functions: ${error.message}`,
+              })
+            )
+          );
         }
 
-        // Enable foreign key constraints
-        db.run('PRAGMA foreign_keys = ON', undefined, (error) => {
-          if (isError(error)) {
-            return reject(new CreateConnectionError(error.message));
+        if (isDefined(this.options.busyTimeout)) {
+          db.configure('busyTimeout', this.options.busyTimeout);
+        }
+
+        const steps: Array<[string, string, Array<string> | undefined]> = [
+          ...this.pragmas().map(([name, sql]): [string, string, undefined] => [
+            `apply PRAGMA ${name}`,
+            sql,
+            undefined,
+          ]),
+          ...this.attachments().map(
+            ([alias, sql, file]): [string, string, Array<string>] => [
+              `attach ${alias}`,
+              sql,
+              [file],
+            ]
+          ),
+        ];
+
+        // Apply PRAGMA statements, then attach databases, one after another
+        const apply = (index: number) => {
+          if (index < steps.length) {
+            const [action, sql, values] = steps[index];
+
+            return db.run(sql, values, (error) => {
+              if (isError(error)) {
+                return db.close(() =>
+                  reject(
+                    wrap(CreateConnectionError, error, {
+                      message: `Failed to ${action}: ${error.message}`,
+                      sql,
+                    })
+                  )
+                );
+              }
+
+              apply(index + 1);
+            });
           }
 
-          const sqlite: MegaConnection = {
+          const format = this.options.dateFormat || 'iso';
+          const resultMode = this.options.resultMode || 'megaorm';
+          const transactionMode = this.options.transactionMode;
+          const readOnly =
+            this.options.mode === 'readonly' || this.options.queryOnly === true;
+          const redactValues = this.options.redactValues === true;
+          const uri = this.options.uri === true;
+          const engine = this.options.engine || 'sqlite3';
+          const hooks = this.options.hooks || {};
+          const threshold = isDefined(this.options.slowQueryThreshold)
+            ? this.options.slowQueryThreshold
+            : 1000;
+
+          // Reports a successful query to the hooks
+          const report = (
+            start: number,
+            context: { sql: string; values: unknown },
+            stats: () => { rows?: number; changes?: number }
+          ) => {
+            if (!isDefined(hooks.onQuery) && !isDefined(hooks.onSlowQuery)) {
+              return;
+            }
+
+            const event = {
+              connection: raw.id,
+              ...context,
+              duration: performance.now() - start,
+              ...stats(),
+            };
+
+            emit(hooks, 'onQuery', event);
+            if (event.duration >= threshold) emit(hooks, 'onSlowQuery', event);
+          };
+
+          // Reports a failed query to the hooks
+          const failed = (
+            start: number,
+            context: { sql: string; values: unknown },
+            error: Error
+          ) => {
+            emit(hooks, 'onQueryError', {
+              connection: raw.id,
+              ...context,
+              duration: performance.now() - start,
+              error,
+            });
+          };
+
+          // Rejects statements that change the database on read-only connections
+          const refuse = (
+            verb: string,
+            context: { sql: string; values?: unknown }
+          ) => {
+            return Object.assign(
+              new ReadOnlyError(`Cannot run ${verb} on a read-only connection`),
+              context
+            );
+          };
+
+          const cacheSize = this.options.statementCache || 0;
+
+          // Number of open transactions, nested ones being savepoints
+          let depth = 0;
+
+          // Statements cached by SQL, least recently used first
+          const cache = new Map<string, Statement>();
+
+          // Statements created with prepare()
+          const statements = new Set<SQLitePreparedStatement>();
+
+          // Gets the cached statement for the given SQL, preparing it if needed
+          const cached = (sql: string): Statement => {
+            let stmt = cache.get(sql);
+
+            if (isDefined(stmt)) {
+              cache.delete(sql);
+              cache.set(sql, stmt);
+              return stmt;
+            }
+
+            // Queued executions receive the error if preparing fails
+            stmt = db.prepare(sql, (error) => {
+              if (isError(error) && cache.get(sql) === stmt) cache.delete(sql);
+            });
+
+            cache.set(sql, stmt);
+
+            if (cache.size > cacheSize) {
+              const [oldest, evicted] = cache.entries().next().value;
+              cache.delete(oldest);
+              evicted.finalize();
+            }
+
+            return stmt;
+          };
+
+          // Streams the rows of a statement, decoded with the casts of the options
+          const streamed = (
+            prepare: () => Promise<SQLitePreparedStatement>,
+            values: SQLiteValues,
+            options: SQLiteStreamOptions
+          ): Readable => {
+            let decoders: Record<string, Caster>;
+
+            try {
+              if (isDefined(options) && !isPlain(options)) {
+                throw new QueryError(
+                  `Invalid stream options: ${String(options)}`
+                );
+              }
+
+              decoders = columns(
+                isDefined(options) ? options.casts : undefined,
+                format
+              );
+            } catch (error) {
+              return stream(Promise.reject(error), values);
+            }
+
+            return stream(prepare(), values, decoders);
+          };
+
+          const raw: Connection = {
             id: Symbol('MegaConnection'),
             driver: this,
-            query(sql: string, values: Array<string | number>) {
+            query(
+              sql: string,
+              values?: SQLiteValues,
+              options?: SQLiteQueryOptions
+            ): Promise<any> {
               return new Promise((resolve, reject) => {
                 if (!isStr(sql)) {
                   return reject(
@@ -131,116 +1190,972 @@ export class SQLite implements MegaDriver {
                   );
                 }
 
-                if (isDefined(values)) {
-                  if (!isArr(values)) {
-                    return reject(
-                      new QueryError(`Invalid query values: ${String(values)}`)
-                    );
-                  }
+                if (isDefined(options) && !isPlain(options)) {
+                  return reject(
+                    new QueryError(`Invalid query options: ${String(options)}`)
+                  );
+                }
 
-                  values.forEach((value) => {
-                    if (!isNum(value) && !isStr(value)) {
-                      return reject(
-                        new QueryError(`Invalid query value: ${String(value)}`)
-                      );
-                    }
-                  });
+                const mode =
+                  isDefined(options) && isDefined(options.resultMode)
+                    ? options.resultMode
+                    : resultMode;
+
+                if (!RESULT_MODES.includes(mode)) {
+                  return reject(
+                    new QueryError(`Invalid query result mode: ${String(mode)}`)
+                  );
+                }
+
+                const timeout = isDefined(options)
+                  ? options.timeout
+                  : undefined;
+
+                if (isDefined(timeout) && !(isInt(timeout) && timeout > 0)) {
+                  return reject(
+                    new QueryError(`Invalid query timeout: ${String(timeout)}`)
+                  );
+                }
+
+                const signal = isDefined(options) ? options.signal : undefined;
+
+                if (
+                  isDefined(signal) &&
+                  !(
+                    isObj(signal) &&
+                    isBool(signal.aborted) &&
+                    isFunc(signal.addEventListener)
+                  )
+                ) {
+                  return reject(
+                    new QueryError(`Invalid query signal: ${String(signal)}`)
+                  );
                 }
 
-                // Handle SELECT queries
-                if (/^\s*SELECT/i.test(sql)) {
-                  return db.all(sql, values, (error, rows) => {
-                    if (isError(error)) {
-                      return reject(new QueryError(error.message));
+                if (
+                  engine !== 'sqlite3' &&
+                  (isDefined(timeout) || isDefined(signal))
+                ) {
+                  return reject(
+                    new QueryError(
+                      `The ${engine} engine does not support query timeouts and signals, use the sqlite3 engine`
+                    )
+                  );
+                }
+
+                let params: Params;
+                let decoders: Record<string, Caster>;
+
+                try {
+                  params = parameters(sql, values, format);
+                  decoders = columns(
+                    isDefined(options) ? options.casts : undefined,
+                    format
+                  );
+                } catch (error) {
+                  return reject(error);
+                }
+
+                const kind = classify(sql);
+                const context = {
+                  sql,
+                  values: redactValues ? redact(values) : values,
+                };
+
+                if (readOnly && kind.write) {
+                  return reject(refuse(kind.verb, context));
+                }
+
+                if (isDefined(signal) && signal.aborted) {
+                  return reject(
+                    wrap(QueryAbortedError, signal.reason, {
+                      ...context,
+                      message: 'Query aborted',
+                    })
+                  );
+                }
+
+                // Interrupt the query once it times out or is aborted
+                let interrupted: 'timeout' | 'aborted';
+
+                const interrupt = (reason: 'timeout' | 'aborted') => {
+                  interrupted = reason;
+                  db.interrupt();
+                };
+
+                const abort = () => interrupt('aborted');
+                const timer = isDefined(timeout)
+                  ? setTimeout(() => interrupt('timeout'), timeout)
+                  : undefined;
+
+                if (isDefined(signal)) signal.addEventListener('abort', abort);
+
+                const done = () => {
+                  clearTimeout(timer);
+                  if (isDefined(signal)) {
+                    signal.removeEventListener('abort', abort);
+                  }
+                };
+
+                const start = performance.now();
+
+                const succeed = (
+                  result: any,
+                  stats: () => { rows?: number; changes?: number }
+                ) => {
+                  done();
+                  report(start, context, stats);
+                  resolve(result);
+                };
+
+                // Keep the failed SQL and values with the error
+                const fail = (error: Error) => {
+                  done();
+
+                  const failure =
+                    interrupted === 'timeout'
+                      ? wrap(QueryTimeoutError, error, {
+                          ...context,
+                          message: `Query timed out after ${timeout}ms`,
+                        })
+                      : interrupted === 'aborted'
+                        ? wrap(QueryAbortedError, error, {
+                            ...context,
+                            message: 'Query aborted',
+                          })
+                        : wrap(QueryError, error, context);
+
+                  failed(start, context, failure);
+                  return reject(failure);
+                };
+
+                // Statements with unbound placeholders are not cached
+                const stmt =
+                  cacheSize > 0 && (isDefined(params) || !bindable(sql))
+                    ? cached(sql)
+                    : undefined;
+
+                // Handle queries that produce rows
+                if (kind.rows) {
+                  const callback = (error: Error, rows: Rows) => {
+                    if (isError(error)) return fail(error);
+
+                    try {
+                      decodeAll(rows, decoders);
+                    } catch (error) {
+                      return fail(error);
                     }
 
-                    return resolve(rows as Rows);
-                  });
+                    return succeed(rows, () => ({ rows: rows.length }));
+                  };
+
+                  if (!isDefined(stmt)) return db.all(sql, params, callback);
+                  if (isDefined(params)) return stmt.all(params, callback);
+                  return stmt.all(callback);
                 }
 
                 // Handle other query types
-                db.run(sql, values, function (error) {
-                  if (error) return reject(new QueryError(error.message));
+                const callback = function (error: Error) {
+                  if (isError(error)) return fail(error);
+
+                  const stats = () => ({ changes: this.changes });
+
+                  // Resolve with the changes and last inserted ID
+                  if (mode === 'detailed') {
+                    return succeed(
+                      { changes: this.changes, lastID: this.lastID },
+                      stats
+                    );
+                  }
 
                   // Handle INSERT queries
-                  if (/^\s*INSERT/i.test(sql)) {
+                  if (['INSERT', 'REPLACE'].includes(kind.verb)) {
                     // Check if it was a single insert or bulk insert
                     if (this.changes === 1) {
-                      return resolve(this.lastID); // Return the last inserted ID for single inserts
+                      return succeed(this.lastID, stats); // Return the last inserted ID for single inserts
                     }
 
-                    return resolve(undefined); // Return undefined for bulk insert
+                    return succeed(undefined, stats); // Return undefined for bulk insert
                   }
 
-                  return resolve(undefined);
-                });
+                  return succeed(undefined, stats);
+                };
+
+                if (!isDefined(stmt)) return db.run(sql, params, callback);
+                if (isDefined(params)) return stmt.run(params, callback);
+                stmt.run(callback);
               });
             },
-            close() {
-              return new Promise((resolve, reject) => {
-                db.close((error) => {
+            prepare(sql: string, schedule: Schedule = direct) {
+              return new Promise<SQLitePreparedStatement>((resolve, reject) => {
+                if (!isStr(sql)) {
+                  return reject(
+                    new QueryError(`Invalid query: ${String(sql)}`)
+                  );
+                }
+
+                const kind = classify(sql);
+
+                if (readOnly && kind.write) {
+                  return reject(refuse(kind.verb, { sql }));
+                }
+
+                const start = performance.now();
+
+                const stmt = db.prepare(sql, (error) => {
                   if (isError(error)) {
-                    return reject(new CloseConnectionError(error.message));
+                    const failure = wrap(QueryError, error, { sql });
+
+                    failed(start, { sql, values: undefined }, failure);
+                    return reject(failure);
                   }
 
-                  const assign = (Error: any) => {
-                    return function reject() {
-                      return Promise.reject(
-                        new Error(
-                          'Cannot perform further operations once the connection is closed'
-                        )
-                      );
-                    };
+                  const context = (values: SQLiteValues) => ({
+                    sql,
+                    values: redactValues ? redact(values) : values,
+                  });
+
+                  const prepared = statement(stmt, sql, {
+                    format,
+                    redactValues,
+                    onFinalize: () => statements.delete(prepared),
+                    onSuccess: (values, start, stats) =>
+                      report(start, context(values), () => stats),
+                    onError: (values, start, error) =>
+                      failed(start, context(values), error),
+                    schedule,
+                  });
+
+                  statements.add(prepared);
+                  resolve(prepared);
+                });
+              });
+            },
+            stream(
+              sql: string,
+              values?: SQLiteValues,
+              options?: SQLiteStreamOptions
+            ) {
+              return streamed(() => raw.prepare(sql), values, options);
+            },
+            batch(
+              sql: string,
+              rows: Array<SQLiteValues>,
+              options?: SQLiteBatchOptions
+            ) {
+              return new Promise<SQLiteBatchResult>((resolve, reject) => {
+                if (!isArr(rows)) {
+                  return reject(
+                    new QueryError(`Invalid batch values: ${String(rows)}`)
+                  );
+                }
+
+                if (isDefined(options) && !isPlain(options)) {
+                  return reject(
+                    new QueryError(`Invalid batch options: ${String(options)}`)
+                  );
+                }
+
+                const size =
+                  isDefined(options) && isDefined(options.chunkSize)
+                    ? options.chunkSize
+                    : 500;
+
+                if (!isInt(size) || size < 1) {
+                  return reject(
+                    new QueryError(`Invalid batch chunk size: ${String(size)}`)
+                  );
+                }
+
+                const result: SQLiteBatchResult = {
+                  count: rows.length,
+                  changes: 0,
+                  lastID: undefined,
+                  chunks: 0,
+                };
+
+                if (rows.length === 0) return resolve(result);
+
+                return raw.prepare(sql).then((prepared) => {
+                  // Waits for every execution of a chunk, even after one fails
+                  const settle = (
+                    chunk: Array<SQLiteValues>
+                  ): Promise<Array<SQLiteRunResult>> => {
+                    let failure: { error: unknown };
+
+                    return Promise.all(
+                      chunk.map((values) =>
+                        prepared.run(values).catch((error) => {
+                          if (!isDefined(failure)) failure = { error };
+                          return undefined;
+                        })
+                      )
+                    ).then((results) =>
+                      isDefined(failure)
+                        ? Promise.reject(failure.error)
+                        : results
+                    );
                   };
 
-                  // Reset
-                  sqlite.close = assign(CloseConnectionError);
-                  sqlite.query = assign(QueryError);
-                  sqlite.beginTransaction = assign(BeginTransactionError);
-                  sqlite.commit = assign(CommitTransactionError);
-                  sqlite.rollback = assign(RollbackTransactionError);
+                  // sqlite3 queues the executions of a chunk on the statement, apart from the ROLLBACK,
+                  // so the chunk must settle before rolling back, or its remaining executions run after it
+                  const run = (start: number): Promise<void> => {
+                    if (start >= rows.length) return Promise.resolve();
+
+                    const chunk = rows.slice(start, start + size);
 
-                  // Resolve
+                    return settle(chunk).then((results) => {
+                      results.forEach((summary) => {
+                        result.changes += summary.changes;
+                        result.lastID = summary.lastID;
+                      });
+
+                      result.chunks++;
+                      return run(start + size);
+                    });
+                  };
+
+                  return raw
+                    .transaction(() => run(0))
+                    .then(
+                      () => prepared.finalize().then(() => resolve(result)),
+                      (error) => prepared.finalize().then(() => reject(error))
+                    );
+                }, reject);
+              });
+            },
+            exec(script: string) {
+              return new Promise<void>((resolve, reject) => {
+                if (!isStr(script)) {
+                  return reject(
+                    new QueryError(`Invalid script: ${String(script)}`)
+                  );
+                }
+
+                if (readOnly) {
+                  const write = split(script)
+                    .map((sql) => classify(sql))
+                    .find((kind) => kind.write);
+
+                  if (isDefined(write)) {
+                    return reject(refuse(write.verb, { sql: script }));
+                  }
+                }
+
+                const context = { sql: script, values: undefined };
+                const start = performance.now();
+
+                db.exec(script, (error) => {
+                  if (isError(error)) {
+                    const failure = wrap(QueryError, error, { sql: script });
+
+                    failed(start, context, failure);
+                    return reject(failure);
+                  }
+
+                  report(start, context, () => ({}));
                   resolve();
                 });
               });
             },
-            beginTransaction() {
+            backup(path: string, options?: SQLiteBackupOptions) {
+              return backup(db, path, options, false);
+            },
+            restore(path: string, options?: SQLiteBackupOptions) {
+              // The backup API does not go through PRAGMA query_only
+              if (readOnly) {
+                return Promise.reject(
+                  new ReadOnlyError('Cannot restore a read-only connection')
+                );
+              }
+
+              return backup(db, path, options, true);
+            },
+            vacuumInto(path: string) {
               return new Promise<void>((resolve, reject) => {
-                return sqlite
-                  .query('BEGIN TRANSACTION;')
-                  .then(() => resolve())
-                  .catch((error) =>
-                    reject(new BeginTransactionError(error.message))
+                if (!isStr(path) || path.length === 0) {
+                  return reject(
+                    new BackupError(`Invalid backup path: ${String(path)}`)
                   );
+                }
+
+                const sql = 'VACUUM INTO ?;';
+
+                db.run(sql, [path], (error) => {
+                  if (isError(error)) {
+                    return reject(
+                      wrap(BackupError, error, {
+                        message: `Failed to vacuum into ${path}: ${error.message}`,
+                        sql,
+                        values: redactValues ? redact([path]) : [path],
+                      })
+                    );
+                  }
+
+                  resolve();
+                });
+              });
+            },
+            attach(path: string, alias: string, options?: SQLiteAttachOptions) {
+              return new Promise<void>((resolve, reject) => {
+                if (!isStr(path) || path.length === 0) {
+                  return reject(
+                    new QueryError(`Invalid attach path: ${String(path)}`)
+                  );
+                }
+
+                if (!isAlias(alias)) {
+                  return reject(
+                    new QueryError(`Invalid attach alias: ${String(alias)}`)
+                  );
+                }
+
+                if (
+                  isDefined(options) &&
+                  (!isPlain(options) ||
+                    (isDefined(options.readonly) && !isBool(options.readonly)))
+                ) {
+                  return reject(
+                    new QueryError(`Invalid attach options: ${String(options)}`)
+                  );
+                }
+
+                const readonly =
+                  isDefined(options) && options.readonly === true;
+
+                if (readonly && !uri) {
+                  return reject(
+                    new QueryError(
+                      'Cannot attach databases in read-only mode without the uri driver option'
+                    )
+                  );
+                }
+
+                raw
+                  .query(attachment(alias), [source(path, readonly)])
+                  .then(() => resolve(), reject);
+              });
+            },
+            detach(alias: string) {
+              return new Promise<void>((resolve, reject) => {
+                if (!isAlias(alias)) {
+                  return reject(
+                    new QueryError(`Invalid detach alias: ${String(alias)}`)
+                  );
+                }
+
+                raw
+                  .query(`DETACH DATABASE "${alias}";`)
+                  .then(() => resolve(), reject);
+              });
+            },
+            schema(database?: string) {
+              return introspect(raw, database);
+            },
+            listAttached() {
+              return raw
+                .query('PRAGMA database_list;')
+                .then((rows) => attached(rows as Array<any>));
+            },
+            close() {
+              // Statements must be finalized before the database can be closed
+              const finalize = Promise.all([
+                ...Array.from(statements).map((prepared) =>
+                  prepared.finalize()
+                ),
+                ...Array.from(cache.values()).map(
+                  (stmt) =>
+                    new Promise<void>((resolve) =>
+                      stmt.finalize(() => resolve())
+                    )
+                ),
+              ]).then(() => cache.clear());
+
+              const start = performance.now();
+
+              return finalize.then(
+                () =>
+                  new Promise<void>((resolve, reject) => {
+                    db.close((error) => {
+                      if (isError(error)) {
+                        return reject(wrap(CloseConnectionError, error));
+                      }
+
+                      const assign = (Error: any) => {
+                        return function reject() {
+                          return Promise.reject(
+                            new Error(
+                              'Cannot perform further operations once the connection is closed'
+                            )
+                          );
+                        };
+                      };
+
+                      // Reset
+                      depth = 0;
+                      raw.close = assign(CloseConnectionError);
+                      raw.query = assign(QueryError);
+                      raw.beginTransaction = assign(BeginTransactionError);
+                      raw.commit = assign(CommitTransactionError);
+                      raw.rollback = assign(RollbackTransactionError);
+                      raw.transaction = assign(BeginTransactionError);
+                      raw.prepare = assign(QueryError);
+                      raw.batch = assign(QueryError);
+                      raw.exec = assign(QueryError);
+                      raw.backup = assign(BackupError);
+                      raw.restore = assign(BackupError);
+                      raw.vacuumInto = assign(BackupError);
+                      raw.attach = assign(QueryError);
+                      raw.detach = assign(QueryError);
+                      raw.listAttached = assign(QueryError);
+
+                      emit(hooks, 'onClose', {
+                        connection: raw.id,
+                        duration: performance.now() - start,
+                      });
+
+                      // Resolve
+                      resolve();
+                    });
+                  })
+              );
+            },
+            get inTransaction() {
+              return depth > 0;
+            },
+            beginTransaction(options?: SQLiteTransactionOptions) {
+              return new Promise<void>((resolve, reject) => {
+                if (isDefined(options) && !isPlain(options)) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction options: ${String(options)}`
+                    )
+                  );
+                }
+
+                const mode =
+                  isDefined(options) && isDefined(options.mode)
+                    ? options.mode
+                    : transactionMode;
+
+                if (isDefined(mode) && !TRANSACTION_MODES.includes(mode)) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction mode: ${String(mode)}`
+                    )
+                  );
+                }
+
+                // Nested transactions use savepoints, which have no mode
+                const sql =
+                  depth > 0
+                    ? `SAVEPOINT ${savepoint(depth)};`
+                    : isDefined(mode)
+                      ? `BEGIN ${mode.toUpperCase()} TRANSACTION;`
+                      : 'BEGIN TRANSACTION;';
+
+                return raw
+                  .query(sql)
+                  .then(() => {
+                    depth++;
+                    emit(hooks, 'onTransaction', {
+                      connection: raw.id,
+                      action: 'begin',
+                      depth,
+                    });
+                    resolve();
+                  })
+                  .catch((error) => reject(wrap(BeginTransactionError, error)));
               });
             },
             commit() {
               return new Promise<void>((resolve, reject) => {
-                return sqlite
-                  .query('COMMIT;')
-                  .then(() => resolve())
+                if (depth === 0) {
+                  return reject(
+                    new CommitTransactionError(
+                      'No active transaction to commit'
+                    )
+                  );
+                }
+
+                const sql =
+                  depth === 1
+                    ? 'COMMIT;'
+                    : `RELEASE SAVEPOINT ${savepoint(depth - 1)};`;
+
+                return raw
+                  .query(sql)
+                  .then(() => {
+                    emit(hooks, 'onTransaction', {
+                      connection: raw.id,
+                      action: 'commit',
+                      depth,
+                    });
+                    depth--;
+                    resolve();
+                  })
                   .catch((error) =>
-                    reject(new CommitTransactionError(error.message))
+                    reject(wrap(CommitTransactionError, error))
                   );
               });
             },
             rollback() {
-              return new Promise((resolve, reject) => {
-                return sqlite
-                  .query('ROLLBACK;')
-                  .then(() => resolve())
-                  .catch((error) =>
-                    reject(new RollbackTransactionError(error.message))
+              return new Promise<void>((resolve, reject) => {
+                if (depth === 0) {
+                  return reject(
+                    new RollbackTransactionError(
+                      'No active transaction to roll back'
+                    )
+                  );
+                }
+
+                // Rolling back to a savepoint keeps it open, so release it too
+                const rollback =
+                  depth === 1
+                    ? raw.query('ROLLBACK;')
+                    : raw
+                        .query(`ROLLBACK TO SAVEPOINT ${savepoint(depth - 1)};`)
+                        .then(() =>
+                          raw.query(
+                            `RELEASE SAVEPOINT ${savepoint(depth - 1)};`
+                          )
+                        );
+
+                const done = () => {
+                  emit(hooks, 'onTransaction', {
+                    connection: raw.id,
+                    action: 'rollback',
+                    depth,
+                  });
+                };
+
+                return rollback
+                  .then(() => {
+                    done();
+                    depth--;
+                    resolve();
+                  })
+                  .catch((error) => {
+                    // SQLite already rolled back the whole transaction, savepoints included, like after an interrupt
+                    if (
+                      /no transaction is active|no such savepoint/.test(
+                        error.message
+                      )
+                    ) {
+                      done();
+                      depth = 0;
+                      return resolve();
+                    }
+
+                    reject(wrap(RollbackTransactionError, error));
+                  });
+              });
+            },
+            transaction<T>(
+              callback: (connection: SQLiteConnection) => T | Promise<T>,
+              options?: SQLiteTransactionCallbackOptions
+            ) {
+              return new Promise<T>((resolve, reject) => {
+                if (!isFunc(callback)) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction callback: ${String(callback)}`
+                    )
+                  );
+                }
+
+                if (isDefined(options) && !isPlain(options)) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction options: ${String(options)}`
+                    )
+                  );
+                }
+
+                const { mode, retries = 0, delay = 50 } = options || {};
+
+                if (!isInt(retries) || retries < 0) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction retries: ${String(retries)}`
+                    )
                   );
+                }
+
+                if (!isNum(delay) || delay < 0) {
+                  return reject(
+                    new BeginTransactionError(
+                      `Invalid transaction delay: ${String(delay)}`
+                    )
+                  );
+                }
+
+                // Nested transactions cannot be retried on their own
+                const retryable = depth === 0;
+
+                const fail = (error: any, attempt: number) => {
+                  if (retryable && attempt < retries && isBusy(error)) {
+                    return setTimeout(
+                      () => run(attempt + 1),
+                      delay * 2 ** attempt
+                    );
+                  }
+
+                  reject(error);
+                };
+
+                const run = (attempt: number) => {
+                  raw
+                    .beginTransaction({ mode })
+                    .then(() => {
+                      const { handle, active, end } = scope();
+                      let result: T;
+
+                      return Promise.resolve()
+                        .then(() =>
+                          callbacks.run(active, () => callback(handle))
+                        )
+                        .then((value) => {
+                          result = value;
+                          return raw.commit();
+                        })
+                        .then(() => {
+                          end();
+                          resolve(result);
+                        })
+                        .catch((error) => {
+                          end();
+
+                          // SQLite may have rolled back the outer transaction already, from a nested one
+                          const rollback =
+                            depth > 0 ? raw.rollback() : Promise.resolve();
+
+                          // Keep the original error, attach the rollback failure
+                          return rollback
+                            .catch((rollbackError) => {
+                              if (isError(error)) {
+                                error.rollbackError = rollbackError;
+                              }
+                            })
+                            .then(() => fail(error, attempt));
+                        });
+                    })
+                    .catch((error) => fail(error, attempt));
+                };
+
+                run(0);
               });
             },
           };
 
+          // Runs the connection operations one at a time, in call order
+          const schedule = queue();
+
+          // Tells whether the code runs inside a transaction callback, and if its transaction is still open
+          const callbacks = new AsyncLocalStorage<() => boolean>();
+
+          // Rejects the operations issued on the connection by its own transaction callback, which would wait forever
+          const enqueue = <T>(
+            Type: new (message?: string) => Error,
+            task: () => Promise<T>
+          ): Promise<T> => {
+            const active = callbacks.getStore();
+
+            if (isDefined(active) && active()) {
+              return Promise.reject(
+                new Type(
+                  'Cannot use the connection inside its transaction callback, use the transaction handle instead'
+                )
+              );
+            }
+
+            return schedule(task);
+          };
+
+          // Creates a handle that runs its operations inside the current transaction
+          const scope = () => {
+            let active = true;
+
+            const guard = <T extends (...args: Array<any>) => any>(
+              Type: new (message?: string) => Error,
+              operation: T
+            ): T => {
+              return ((...args: Array<any>) => {
+                if (active) return operation(...args);
+
+                return Promise.reject(
+                  new Type(
+                    'Cannot use a transaction handle once the transaction is done'
+                  )
+                );
+              }) as T;
+            };
+
+            const handle: SQLiteConnection = {
+              id: raw.id,
+              driver: this,
+              get inTransaction() {
+                return raw.inTransaction;
+              },
+              query: guard(
+                QueryError,
+                (
+                  sql: string,
+                  values?: SQLiteValues,
+                  options?: SQLiteQueryOptions
+                ): Promise<any> => raw.query(sql, values, options)
+              ),
+              // Statements run right away in the transaction, and wait for the other operations once it is done
+              prepare: guard(QueryError, (sql: string) =>
+                raw.prepare(sql, (task) =>
+                  active ? direct(task) : enqueue(QueryError, task)
+                )
+              ),
+              stream: (
+                sql: string,
+                values?: SQLiteValues,
+                options?: SQLiteStreamOptions
+              ) => streamed(() => handle.prepare(sql), values, options),
+              batch: guard(
+                QueryError,
+                (
+                  sql: string,
+                  rows: Array<SQLiteValues>,
+                  options?: SQLiteBatchOptions
+                ) => raw.batch(sql, rows, options)
+              ),
+              exec: guard(QueryError, (script: string) => raw.exec(script)),
+              backup: guard(
+                BackupError,
+                (path: string, options?: SQLiteBackupOptions) =>
+                  raw.backup(path, options)
+              ),
+              restore: guard(
+                BackupError,
+                (path: string, options?: SQLiteBackupOptions) =>
+                  raw.restore(path, options)
+              ),
+              vacuumInto: guard(BackupError, (path: string) =>
+                raw.vacuumInto(path)
+              ),
+              attach: guard(
+                QueryError,
+                (path: string, alias: string, options?: SQLiteAttachOptions) =>
+                  raw.attach(path, alias, options)
+              ),
+              detach: guard(QueryError, (alias: string) => raw.detach(alias)),
+              listAttached: guard(QueryError, () => raw.listAttached()),
+              schema: (database?: string) => introspect(handle, database),
+              close: () =>
+                Promise.reject(
+                  new CloseConnectionError(
+                    'Cannot close the connection inside a transaction'
+                  )
+                ),
+              beginTransaction: guard(
+                BeginTransactionError,
+                (options?: SQLiteTransactionOptions) =>
+                  raw.beginTransaction(options)
+              ),
+              commit: guard(CommitTransactionError, () => raw.commit()),
+              rollback: guard(RollbackTransactionError, () => raw.rollback()),
+              transaction: guard(BeginTransactionError, (callback, options) =>
+                raw.transaction(callback, options)
+              ),
+            };
+
+            return {
+              handle,
+              active: () => active,
+              end: () => (active = false),
+            };
+          };
+
+          // Operations wait for the ones issued before them, including whole transactions
+          const sqlite: SQLiteConnection = {
+            id: raw.id,
+            driver: this,
+            get inTransaction() {
+              return raw.inTransaction;
+            },
+            query: (
+              sql: string,
+              values?: SQLiteValues,
+              options?: SQLiteQueryOptions
+            ): Promise<any> =>
+              enqueue(QueryError, () => raw.query(sql, values, options)),
+            prepare: (sql: string) =>
+              enqueue(QueryError, () =>
+                raw.prepare(sql, (task) => enqueue(QueryError, task))
+              ),
+            stream: (
+              sql: string,
+              values?: SQLiteValues,
+              options?: SQLiteStreamOptions
+            ) => streamed(() => sqlite.prepare(sql), values, options),
+            batch: (
+              sql: string,
+              rows: Array<SQLiteValues>,
+              options?: SQLiteBatchOptions
+            ) => enqueue(QueryError, () => raw.batch(sql, rows, options)),
+            exec: (script: string) =>
+              enqueue(QueryError, () => raw.exec(script)),
+            backup: (path: string, options?: SQLiteBackupOptions) =>
+              enqueue(BackupError, () => raw.backup(path, options)),
+            restore: (path: string, options?: SQLiteBackupOptions) =>
+              enqueue(BackupError, () => raw.restore(path, options)),
+            vacuumInto: (path: string) =>
+              enqueue(BackupError, () => raw.vacuumInto(path)),
+            attach: (
+              path: string,
+              alias: string,
+              options?: SQLiteAttachOptions
+            ) => enqueue(QueryError, () => raw.attach(path, alias, options)),
+            detach: (alias: string) =>
+              enqueue(QueryError, () => raw.detach(alias)),
+            listAttached: () => enqueue(QueryError, () => raw.listAttached()),
+            schema: (database?: string) => introspect(sqlite, database),
+            close: () => enqueue(CloseConnectionError, () => raw.close()),
+            beginTransaction: (options?: SQLiteTransactionOptions) =>
+              enqueue(BeginTransactionError, () =>
+                raw.beginTransaction(options)
+              ),
+            commit: () => enqueue(CommitTransactionError, () => raw.commit()),
+            rollback: () =>
+              enqueue(RollbackTransactionError, () => raw.rollback()),
+            transaction: (callback, options) =>
+              enqueue(BeginTransactionError, () =>
+                raw.transaction(callback, options)
+              ),
+          };
+
+          emit(hooks, 'onConnect', {
+            connection: sqlite.id,
+            duration: performance.now() - opened,
+          });
+
           // Resolve
           resolve(sqlite);
-        });
-      });
+        };
+
+        apply(0);
+      };
+
+      // Create connection using the engine
+      let db: Handle;
+
+      try {
+        db = open(
+          this.options.engine || 'sqlite3',
+          this.path,
+          this.options.mode,
+          this.options.uri === true,
+          this.decoding(),
+          callback
+        );
+      } catch (error) {
+        reject(wrap(CreateConnectionError, error));
+      }
     });
   }
 }
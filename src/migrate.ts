@@ -0,0 +1,886 @@
+import { createHash } from 'crypto';
+import { readFile, readdir } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { createRequire } from 'module';
+import { isBool, isDefined, isFunc, isInt, isStr } from '@megaorm/test';
+import { MigrationError, wrap } from './errors';
+import { isPlain } from './values';
+import type { SQLiteConnection } from './index';
+
+/**
+ * What a migration runs in one direction: a SQL script, or a function that receives the transaction handle.
+ */
+export type SQLiteMigrationStep =
+  string | ((connection: SQLiteConnection) => unknown);
+
+/**
+ * A migration loaded from a file like `001_create_users.sql`.
+ */
+export interface SQLiteMigration {
+  /**
+   * The version, read from the number the file name starts with.
+   */
+  version: number;
+
+  /**
+   * The file name without its extension, like `001_create_users`.
+   */
+  name: string;
+
+  /**
+   * The SHA-256 checksum of the file.
+   */
+  checksum: string;
+
+  /**
+   * Applies the migration.
+   */
+  up: SQLiteMigrationStep;
+
+  /**
+   * Reverts the migration, `undefined` if it cannot be reverted.
+   */
+  down?: SQLiteMigrationStep;
+}
+
+/**
+ * The state of a migration:
+ * - `pending`: Not applied yet.
+ * - `applied`: Applied, and its file did not change since.
+ * - `drifted`: Applied, but its file changed since.
+ * - `missing`: Applied, but its file is gone.
+ */
+export type SQLiteMigrationState =
+  'pending' | 'applied' | 'drifted' | 'missing';
+
+/**
+ * The status of a migration.
+ */
+export interface SQLiteMigrationStatus {
+  /**
+   * The migration version.
+   */
+  version: number;
+
+  /**
+   * The migration name.
+   */
+  name: string;
+
+  /**
+   * The migration state.
+   */
+  state: SQLiteMigrationState;
+
+  /**
+   * When the migration was applied, like `2024-01-01 10:00:00` in UTC, `null` if it is pending or unknown.
+   */
+  appliedAt: string | null;
+}
+
+/**
+ * Where applied migrations are tracked:
+ * - `table`: A table with the version, name, checksum and date of every applied migration.
+ * - `user_version`: `PRAGMA user_version`, holding the version of the last applied migration, without drift detection.
+ */
+export type SQLiteMigrationTracking = 'table' | 'user_version';
+
+/**
+ * SQLite migrator options.
+ */
+export interface SQLiteMigratorOptions {
+  /**
+   * The directory of the migration files.
+   */
+  directory: string;
+
+  /**
+   * Where applied migrations are tracked, defaults to `table`.
+   */
+  tracking?: SQLiteMigrationTracking;
+
+  /**
+   * The table used to track applied migrations, defaults to `megaorm_migrations`.
+   */
+  table?: string;
+}
+
+/**
+ * Options used to apply migrations.
+ */
+export interface SQLiteMigrateOptions {
+  /**
+   * The last version to apply, defaults to every pending migration.
+   */
+  to?: number;
+
+  /**
+   * Whether to roll back every migration once applied, to check they succeed, defaults to `false`.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Options used to revert migrations.
+ */
+export interface SQLiteRevertOptions {
+  /**
+   * The version to revert to, every migration applied after it is reverted.
+   */
+  to?: number;
+
+  /**
+   * The number of migrations to revert, defaults to `1`, ignored if `to` is given.
+   */
+  steps?: number;
+
+  /**
+   * Whether to roll back every migration once reverted, to check they succeed, defaults to `false`.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Options used to rebuild a table.
+ */
+export interface SQLiteRebuildOptions {
+  /**
+   * The SQL expression that fills each column of the new table from the old one, like `{ name: "first || ' ' || last" }`.
+   * Defaults to copying the columns both tables have.
+   */
+  columns?: Record<string, string>;
+}
+
+/**
+ * A migration recorded as applied.
+ */
+interface Applied {
+  version: number;
+  name: string;
+  checksum: string | null;
+  appliedAt: string | null;
+}
+
+/**
+ * Migration file names, like `001_create_users.sql`.
+ */
+const FILE = /^(\d+)[_-].*\.(sql|js|cjs)$/;
+
+/**
+ * The comments that split a SQL migration, like `-- migrate:down`.
+ */
+const MARKER = /^[ \t]*--[ \t]*migrate:(up|down)[ \t]*$/im;
+
+/**
+ * The supported tracking modes.
+ */
+const TRACKING: Array<SQLiteMigrationTracking> = ['table', 'user_version'];
+
+/**
+ * Checks if the given value is a valid identifier.
+ * @param name The value to check.
+ * @returns `true` if the value can be used as a table name without escaping.
+ */
+function isIdentifier(name: any): boolean {
+  return isStr(name) && /^[a-z_][a-z0-9_]*$/i.test(name);
+}
+
+/**
+ * Quotes the given identifier.
+ * @param name The identifier.
+ * @returns The identifier in double quotes, with inner quotes escaped.
+ */
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Checks if the given value is a valid migration step.
+ * @param step The value to check.
+ * @returns `true` if the value is a non-empty SQL script or a function.
+ */
+function isStep(step: any): boolean {
+  return isFunc(step) || (isStr(step) && step.trim().length > 0);
+}
+
+/**
+ * Reads the steps of a SQL migration.
+ * @param sql The file content.
+ * @returns The `up` script, and the `down` script if the file has one.
+ * @note Files without markers only migrate up.
+ */
+function sections(sql: string): { up: string; down?: string } {
+  const parts = sql.split(MARKER);
+  const steps = { up: parts[0], down: '' };
+
+  for (let index = 1; index < parts.length; index += 2) {
+    const direction = parts[index].toLowerCase() as 'up' | 'down';
+    steps[direction] += parts[index + 1];
+  }
+
+  return {
+    up: steps.up,
+    down: steps.down.trim().length > 0 ? steps.down : undefined,
+  };
+}
+
+/**
+ * Runs the given tasks one after another.
+ * @param items The items to run the task with.
+ * @param task The task.
+ * @returns A `Promise` that resolves once every task is done, or rejects with the first failure.
+ */
+function sequence<T>(
+  items: Array<T>,
+  task: (item: T) => Promise<unknown>
+): Promise<void> {
+  return items.reduce(
+    (previous, item) => previous.then(() => task(item)).then(() => undefined),
+    Promise.resolve()
+  );
+}
+
+/**
+ * Rebuilds a table with a new definition, for the changes `ALTER TABLE` does not support.
+ * @param connection The connection, in a transaction with foreign keys disabled, like in a migration.
+ * @param table The table name.
+ * @param definition The column definitions and constraints of the new table, as written between the parentheses of `CREATE TABLE`.
+ * @param options How the columns of the new table are filled.
+ * @returns A `Promise` that resolves once the table is rebuilt.
+ * @throws `MigrationError` If the table does not exist, or the connection is not ready.
+ * @example
+ *
+ * // Make the email column required
+ * await rebuild(connection, 'users', 'id INTEGER PRIMARY KEY, email TEXT NOT NULL');
+ *
+ * @note
+ * - The table is copied to a new table, which replaces it, as described in https://www.sqlite.org/lang_altertable.html.
+ * - The indexes and triggers of the table are recreated, those on removed columns must be dropped first.
+ * - Views and foreign keys of other tables keep referencing the table by name.
+ */
+export function rebuild(
+  connection: SQLiteConnection,
+  table: string,
+  definition: string,
+  options?: SQLiteRebuildOptions
+): Promise<void> {
+  if (!isStr(table) || table.length === 0) {
+    return Promise.reject(
+      new MigrationError(`Invalid table: ${String(table)}`)
+    );
+  }
+
+  if (!isStr(definition) || definition.trim().length === 0) {
+    return Promise.reject(
+      new MigrationError(`Invalid table definition: ${String(definition)}`)
+    );
+  }
+
+  if (isDefined(options) && !isPlain(options)) {
+    return Promise.reject(
+      new MigrationError(`Invalid rebuild options: ${String(options)}`)
+    );
+  }
+
+  const columns = isDefined(options) ? options.columns : undefined;
+
+  if (
+    isDefined(columns) &&
+    (!isPlain(columns) || !Object.values(columns).every(isStr))
+  ) {
+    return Promise.reject(
+      new MigrationError(`Invalid rebuild columns: ${String(columns)}`)
+    );
+  }
+
+  if (!connection.inTransaction) {
+    return Promise.reject(
+      new MigrationError('Tables can only be rebuilt in a transaction')
+    );
+  }
+
+  const temporary = `__megaorm_rebuild_${table}`;
+
+  // Lists the column names of the given table
+  const names = (name: string) =>
+    connection
+      .query('SELECT name FROM pragma_table_info(?) ORDER BY cid;', [name])
+      .then((rows: Array<{ name: string }>) => rows.map((row) => row.name));
+
+  return connection
+    .query('PRAGMA foreign_keys;')
+    .then((rows: Array<{ foreign_keys: number }>) => {
+      // Dropping the table would delete or fail on the rows that reference it
+      if (rows[0].foreign_keys === 1) {
+        throw new MigrationError(
+          'Foreign keys must be disabled to rebuild a table'
+        );
+      }
+
+      return connection.query(
+        `SELECT type, sql FROM sqlite_schema WHERE tbl_name = ? AND type IN ('table', 'index', 'trigger') AND sql IS NOT NULL ORDER BY type = 'trigger', rowid;`,
+        [table]
+      );
+    })
+    .then((rows: Array<{ type: string; sql: string }>) => {
+      if (!rows.some((row) => row.type === 'table')) {
+        throw new MigrationError(`Unknown table: ${table}`);
+      }
+
+      const schema = rows.filter((row) => row.type !== 'table');
+
+      return connection
+        .exec(`CREATE TABLE ${quote(temporary)} (${definition});`)
+        .then(() => {
+          if (isDefined(columns)) return Object.entries(columns);
+
+          return Promise.all([names(table), names(temporary)]).then(
+            ([before, after]) =>
+              after
+                .filter((name) => before.includes(name))
+                .map((name): [string, string] => [name, quote(name)])
+          );
+        })
+        .then((copied) => {
+          const targets = copied.map(([name]) => quote(name)).join(', ');
+          const sources = copied.map(([, source]) => source).join(', ');
+
+          // The legacy behavior keeps views and triggers from being checked against the dropped table
+          return connection.exec(
+            [
+              `INSERT INTO ${quote(temporary)} (${targets}) SELECT ${sources} FROM ${quote(table)};`,
+              `DROP TABLE ${quote(table)};`,
+              'PRAGMA legacy_alter_table = ON;',
+              `ALTER TABLE ${quote(temporary)} RENAME TO ${quote(table)};`,
+              'PRAGMA legacy_alter_table = OFF;',
+              ...schema.map((row) => `${row.sql};`),
+            ].join('\n')
+          );
+        });
+    });
+}
+
+/**
+ * SQLite migrator responsible for applying and reverting migrations.
+ * @example
+ *
+ * // Apply every pending migration from ./migrations
+ * const migrator = new SQLiteMigrator(connection, './migrations');
+ * const applied = await migrator.up();
+ *
+ * // Check the migrations without applying them
+ * await migrator.up({ dryRun: true });
+ *
+ * // Revert the last migration
+ * await migrator.down();
+ *
+ * @note
+ * - SQL migrations hold the `up` script, then an optional `down` script after a `-- migrate:down` comment.
+ * - JavaScript migrations export an `up` function or script, and an optional `down` one.
+ * - Each migration runs in its own transaction with foreign keys disabled, and fails if it leaves foreign key violations.
+ */
+export class SQLiteMigrator {
+  /**
+   * The connection the migrations run on.
+   */
+  public connection: SQLiteConnection;
+
+  /**
+   * The migrator options.
+   */
+  private options: SQLiteMigratorOptions;
+
+  /**
+   * Constructs a migrator for the given connection.
+   * @param connection The connection the migrations run on.
+   * @param options The directory of the migration files, or the migrator options.
+   * @throws `MigrationError` If the options are invalid.
+   */
+  constructor(connection: SQLiteConnection, directory: string);
+  constructor(connection: SQLiteConnection, options: SQLiteMigratorOptions);
+  constructor(
+    connection: SQLiteConnection,
+    directory: string | SQLiteMigratorOptions
+  ) {
+    const options = (
+      isStr(directory) ? { directory } : directory
+    ) as SQLiteMigratorOptions;
+
+    if (!isPlain(options)) {
+      throw new MigrationError(`Invalid migrator options: ${String(options)}`);
+    }
+
+    if (!isStr(options.directory) || options.directory.length === 0) {
+      throw new MigrationError(
+        `Invalid migrations directory: ${String(options.directory)}`
+      );
+    }
+
+    if (isDefined(options.tracking) && !TRACKING.includes(options.tracking)) {
+      throw new MigrationError(
+        `Invalid migration tracking: ${String(options.tracking)}`
+      );
+    }
+
+    if (isDefined(options.table) && !isIdentifier(options.table)) {
+      throw new MigrationError(
+        `Invalid migrations table: ${String(options.table)}`
+      );
+    }
+
+    this.connection = connection;
+    this.options = {
+      tracking: 'table',
+      table: 'megaorm_migrations',
+      ...options,
+    };
+  }
+
+  /**
+   * Loads the migrations from the directory.
+   * @returns A `Promise` that resolves with the migrations ordered by version.
+   * @throws `MigrationError` If a file cannot be loaded, or two files have the same version.
+   * @note Files that do not start with a number, or are not `.sql`, `.js` or `.cjs` files, are ignored.
+   */
+  public load(): Promise<Array<SQLiteMigration>> {
+    const directory = resolve(this.options.directory);
+
+    return readdir(directory)
+      .catch((error) => {
+        throw wrap(MigrationError, error, {
+          message: `Failed to read migrations directory: ${error.message}`,
+        });
+      })
+      .then((files) =>
+        Promise.all(
+          files
+            .filter((file) => FILE.test(file))
+            .map((file) => {
+              const path = join(directory, file);
+
+              return readFile(path, 'utf8').then((content) => {
+                const name = file.slice(0, -extname(file).length);
+                const steps =
+                  extname(file) === '.sql'
+                    ? sections(content)
+                    : this.require(path, name);
+
+                if (!isDefined(steps) || !isStep(steps.up)) {
+                  throw new MigrationError(`Invalid migration: ${name}`);
+                }
+
+                if (isDefined(steps.down) && !isStep(steps.down)) {
+                  throw new MigrationError(`Invalid migration: ${name}`);
+                }
+
+                return {
+                  version: Number(file.match(FILE)[1]),
+                  name,
+                  checksum: createHash('sha256').update(content).digest('hex'),
+                  up: steps.up,
+                  down: steps.down,
+                } as SQLiteMigration;
+              });
+            })
+        )
+      )
+      .then((migrations) => {
+        migrations.sort((a, b) => a.version - b.version);
+
+        migrations.forEach((migration, index) => {
+          const previous = migrations[index - 1];
+
+          if (isDefined(previous) && previous.version === migration.version) {
+            throw new MigrationError(
+              `Duplicate migration version: ${previous.name} and ${migration.name}`
+            );
+          }
+        });
+
+        return migrations;
+      });
+  }
+
+  /**
+   * Lists every migration with its state.
+   * @returns A `Promise` that resolves with the status of the loaded and applied migrations, ordered by version.
+   * @note The migrations are not applied, and the tracking table is not created.
+   */
+  public status(): Promise<Array<SQLiteMigrationStatus>> {
+    return this.load().then((migrations) =>
+      this.applied(this.connection, migrations).then((records) => {
+        const statuses: Array<SQLiteMigrationStatus> = migrations.map(
+          (migration) => {
+            const record = records.find(
+              (record) => record.version === migration.version
+            );
+
+            if (!isDefined(record)) {
+              return {
+                version: migration.version,
+                name: migration.name,
+                state: 'pending',
+                appliedAt: null,
+              };
+            }
+
+            return {
+              version: migration.version,
+              name: migration.name,
+              state:
+                record.checksum === null ||
+                record.checksum === migration.checksum
+                  ? 'applied'
+                  : 'drifted',
+              appliedAt: record.appliedAt,
+            };
+          }
+        );
+
+        records
+          .filter(
+            (record) =>
+              !migrations.some(
+                (migration) => migration.version === record.version
+              )
+          )
+          .forEach((record) =>
+            statuses.push({
+              version: record.version,
+              name: record.name,
+              state: 'missing',
+              appliedAt: record.appliedAt,
+            })
+          );
+
+        return statuses.sort((a, b) => a.version - b.version);
+      })
+    );
+  }
+
+  /**
+   * Applies the pending migrations, in version order.
+   * @param options The last version to apply, and whether to roll back once done.
+   * @returns A `Promise` that resolves with the applied migrations.
+   * @throws `MigrationError` If an applied migration changed since, or a migration fails.
+   * @note A failed migration is rolled back, the migrations applied before it stay applied.
+   */
+  public up(options?: SQLiteMigrateOptions): Promise<Array<SQLiteMigration>> {
+    return this.migrate('up', options, (migrations, records, { to }) =>
+      migrations.filter(
+        (migration) =>
+          !records.some((record) => record.version === migration.version) &&
+          (!isDefined(to) || migration.version <= to)
+      )
+    );
+  }
+
+  /**
+   * Reverts the applied migrations, latest first.
+   * @param options The version to revert to or the number of migrations to revert, and whether to roll back once done.
+   * @returns A `Promise` that resolves with the reverted migrations.
+   * @throws `MigrationError` If an applied migration changed since, cannot be reverted, or fails.
+   */
+  public down(options?: SQLiteRevertOptions): Promise<Array<SQLiteMigration>> {
+    return this.migrate(
+      'down',
+      options,
+      (migrations, records, { to, steps }) => {
+        const reverted = isDefined(to)
+          ? records.filter((record) => record.version > to)
+          : records.slice(-(isDefined(steps) ? steps : 1));
+
+        return reverted.reverse().map((record) => {
+          const migration = migrations.find(
+            (migration) => migration.version === record.version
+          );
+
+          if (!isDefined(migration)) {
+            throw new MigrationError(
+              `Migration file not found: ${record.name}`
+            );
+          }
+
+          if (!isDefined(migration.down)) {
+            throw new MigrationError(
+              `Migration cannot be reverted: ${migration.name}`
+            );
+          }
+
+          return migration;
+        });
+      }
+    );
+  }
+
+  /**
+   * Loads a JavaScript migration.
+   * @param path The file path.
+   * @param name The migration name.
+   * @returns The `up` and `down` steps the file exports.
+   * @throws `MigrationError` If the file cannot be loaded.
+   * @note The file is removed from the `require` cache first, so every load runs its current content.
+   */
+  private require(
+    path: string,
+    name: string
+  ): { up: SQLiteMigrationStep; down?: SQLiteMigrationStep } {
+    try {
+      const load = createRequire(path);
+
+      delete load.cache[path];
+
+      const exported = load(path);
+      return isDefined(exported.default) ? exported.default : exported;
+    } catch (error) {
+      throw wrap(MigrationError, error, {
+        message: `Failed to load migration ${name}: ${error.message}`,
+      });
+    }
+  }
+
+  /**
+   * Reads the applied migrations.
+   * @param connection The connection to read with.
+   * @param migrations The loaded migrations, which `user_version` tracking reads as applied up to the version.
+   * @returns A `Promise` that resolves with the applied migrations ordered by version.
+   */
+  private applied(
+    connection: SQLiteConnection,
+    migrations: Array<SQLiteMigration>
+  ): Promise<Array<Applied>> {
+    if (this.options.tracking === 'user_version') {
+      return connection
+        .query('PRAGMA user_version;')
+        .then((rows: Array<{ user_version: number }>) =>
+          migrations
+            .filter((migration) => migration.version <= rows[0].user_version)
+            .map((migration) => ({
+              version: migration.version,
+              name: migration.name,
+              checksum: null,
+              appliedAt: null,
+            }))
+        );
+    }
+
+    const table = this.options.table;
+
+    return connection
+      .query(
+        "SELECT name FROM sqlite_schema WHERE type = 'table' AND name = ?;",
+        [table]
+      )
+      .then((rows: Array<unknown>) => {
+        if (rows.length === 0) return [];
+
+        return connection.query(
+          `SELECT version, name, checksum, applied_at AS appliedAt FROM ${quote(table)} ORDER BY version;`
+        ) as Promise<Array<Applied>>;
+      });
+  }
+
+  /**
+   * Records a migration as applied or reverted.
+   * @param connection The transaction handle.
+   * @param migration The migration.
+   * @param direction Whether the migration was applied or reverted.
+   * @param previous The version applied before the reverted migration, `0` if there is none.
+   * @returns A `Promise` that resolves once the migration is recorded.
+   */
+  private record(
+    connection: SQLiteConnection,
+    migration: SQLiteMigration,
+    direction: 'up' | 'down',
+    previous: number
+  ): Promise<unknown> {
+    const table = quote(this.options.table);
+
+    if (this.options.tracking === 'user_version') {
+      const version = direction === 'up' ? migration.version : previous;
+      return connection.query(`PRAGMA user_version = ${version};`);
+    }
+
+    if (direction === 'down') {
+      return connection.query(`DELETE FROM ${table} WHERE version = ?;`, [
+        migration.version,
+      ]);
+    }
+
+    return connection.query(
+      `INSERT INTO ${table} (version, name, checksum) VALUES (?, ?, ?);`,
+      [migration.version, migration.name, migration.checksum]
+    );
+  }
+
+  /**
+   * Applies or reverts the planned migrations, each in its own transaction.
+   * @param direction Whether to apply or revert the migrations.
+   * @param options The migrate or revert options.
+   * @param plan Picks the migrations to run from the loaded and applied migrations, and the options.
+   * @returns A `Promise` that resolves with the migrations that ran.
+   * @throws `MigrationError` If the options are invalid, an applied migration changed since, or a migration fails.
+   * @note Foreign keys are disabled while the migrations run, as they cannot be disabled in a transaction.
+   */
+  private migrate(
+    direction: 'up' | 'down',
+    options: SQLiteRevertOptions,
+    plan: (
+      migrations: Array<SQLiteMigration>,
+      records: Array<Applied>,
+      options: SQLiteRevertOptions
+    ) => Array<SQLiteMigration>
+  ): Promise<Array<SQLiteMigration>> {
+    if (isDefined(options) && !isPlain(options)) {
+      return Promise.reject(
+        new MigrationError(`Invalid migrate options: ${String(options)}`)
+      );
+    }
+
+    options = options || {};
+
+    if (isDefined(options.to) && !(isInt(options.to) && options.to >= 0)) {
+      return Promise.reject(
+        new MigrationError(`Invalid migration version: ${String(options.to)}`)
+      );
+    }
+
+    if (
+      isDefined(options.steps) &&
+      !(isInt(options.steps) && options.steps >= 1)
+    ) {
+      return Promise.reject(
+        new MigrationError(`Invalid migration steps: ${String(options.steps)}`)
+      );
+    }
+
+    if (isDefined(options.dryRun) && !isBool(options.dryRun)) {
+      return Promise.reject(
+        new MigrationError(
+          `Invalid migration dry run option: ${String(options.dryRun)}`
+        )
+      );
+    }
+
+    const connection = this.connection;
+    const dryRun = options.dryRun === true;
+
+    if (connection.inTransaction) {
+      return Promise.reject(
+        new MigrationError('Migrations cannot run inside a transaction')
+      );
+    }
+
+    // Creates the tracking table, rolled back with the dry run
+    const track = () => {
+      if (this.options.tracking === 'user_version') return Promise.resolve();
+
+      return connection.exec(
+        `CREATE TABLE IF NOT EXISTS ${quote(this.options.table)} (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );`
+      );
+    };
+
+    const run = (): Promise<Array<SQLiteMigration>> =>
+      Promise.all([this.load(), track()])
+        .then(([migrations]) =>
+          this.applied(connection, migrations).then((records) => {
+            const drifted = migrations.filter((migration) =>
+              records.some(
+                (record) =>
+                  record.version === migration.version &&
+                  record.checksum !== null &&
+                  record.checksum !== migration.checksum
+              )
+            );
+
+            if (drifted.length > 0) {
+              throw new MigrationError(
+                `Migrations changed since they were applied: ${drifted
+                  .map((migration) => migration.name)
+                  .join(', ')}`
+              );
+            }
+
+            return {
+              migrations,
+              records,
+              planned: plan(migrations, records, options),
+            };
+          })
+        )
+        .then(({ migrations, records, planned }) =>
+          sequence(planned, (migration) => {
+            // The version applied before the migration, for user_version tracking
+            const previous = migrations
+              .filter(
+                (other) =>
+                  other.version < migration.version &&
+                  records.some((record) => record.version === other.version)
+              )
+              .reduce((version, other) => other.version, 0);
+
+            return connection
+              .transaction(
+                (tx) => {
+                  const step = migration[direction];
+
+                  return Promise.resolve()
+                    .then(() =>
+                      isStr(step)
+                        ? tx.exec(step as string)
+                        : (step as Function)(tx)
+                    )
+                    .then(() => tx.query('PRAGMA foreign_key_check;'))
+                    .then((violations: Array<{ table: string }>) => {
+                      if (violations.length > 0) {
+                        throw new MigrationError(
+                          `Foreign key constraint failed on table ${violations[0].table}`
+                        );
+                      }
+
+                      return this.record(tx, migration, direction, previous);
+                    });
+                },
+                { mode: dryRun ? undefined : 'immediate' }
+              )
+              .catch((error) => {
+                throw wrap(MigrationError, error, {
+                  message: `Migration ${migration.name} failed: ${error.message}`,
+                });
+              });
+          }).then(() => planned)
+        );
+
+    return connection
+      .query('PRAGMA foreign_keys;')
+      .then((rows: Array<{ foreign_keys: number }>) => {
+        const enabled = rows[0].foreign_keys === 1;
+
+        // Rolls back the dry run, then enables foreign keys again
+        const finish = () =>
+          (dryRun ? connection.rollback() : Promise.resolve()).then(() =>
+            enabled ? connection.query('PRAGMA foreign_keys = ON;') : undefined
+          );
+
+        return connection
+          .query('PRAGMA foreign_keys = OFF;')
+          .then(() =>
+            dryRun ? connection.beginTransaction({ mode: 'immediate' }) : null
+          )
+          .then(run)
+          .then(
+            (migrations) => finish().then(() => migrations),
+            (error) =>
+              finish().then(
+                () => Promise.reject(error),
+                () => Promise.reject(error)
+              )
+          );
+      });
+  }
+}
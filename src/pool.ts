@@ -0,0 +1,604 @@
+import { CloseConnectionError } from '@megaorm/errors';
+import { CreateConnectionError } from '@megaorm/errors';
+import { isArr, isBool, isDefined, isFunc, isInt } from '@megaorm/test';
+import { isObj, isStr } from '@megaorm/test';
+import { SQLite, SQLiteConnection, SQLiteOptions } from './index';
+
+/**
+ * How the pool hands out connections.
+ * - `shared`: Every connection can read and write.
+ * - `single-writer`: One connection writes, while up to `max` read-only connections read.
+ */
+export type SQLitePoolMode = 'shared' | 'single-writer';
+
+/**
+ * SQLite pool options.
+ */
+export interface SQLitePoolOptions {
+  /**
+   * Number of connections kept open when idle, defaults to `0`.
+   * Connections are opened on demand, and closed ones are replaced to keep the minimum.
+   */
+  min?: number;
+
+  /**
+   * Maximum number of open connections, defaults to `10`.
+   * In `single-writer` mode, this is the maximum number of readers.
+   */
+  max?: number;
+
+  /**
+   * Milliseconds to wait for a connection before failing, defaults to `10000`.
+   */
+  acquireTimeout?: number;
+
+  /**
+   * Milliseconds before an idle connection is closed, defaults to `30000`, `0` keeps them open.
+   */
+  idleTimeout?: number;
+
+  /**
+   * Query used to check idle connections before handing them out, like `SELECT 1`.
+   */
+  validationQuery?: string;
+
+  /**
+   * How the pool hands out connections, defaults to `shared`.
+   */
+  mode?: SQLitePoolMode;
+}
+
+/**
+ * Options used to acquire a connection.
+ */
+export interface SQLiteAcquireOptions {
+  /**
+   * Whether the connection is only used to read, defaults to `false`.
+   * In `single-writer` mode, read-only connections are acquired from the readers.
+   */
+  readonly?: boolean;
+}
+
+/**
+ * A connection waiting in the pool.
+ */
+interface Idle {
+  connection: SQLiteConnection;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * A request waiting for a connection.
+ */
+interface Waiter {
+  resolve: (connection: SQLiteConnection) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A group of connections created by the same driver.
+ */
+interface Bucket {
+  driver: SQLite;
+  min: number;
+  max: number;
+  size: number;
+  idle: Array<Idle>;
+  waiters: Array<Waiter>;
+}
+
+/**
+ * The supported pool modes.
+ */
+const POOL_MODES: Array<SQLitePoolMode> = ['shared', 'single-writer'];
+
+/**
+ * Checks if the given value is a non-negative integer.
+ * @param value The value to check.
+ * @returns `true` if the value is an integer greater than or equal to `0`, `false` otherwise.
+ */
+function isCount(value: any): boolean {
+  return isInt(value) && value >= 0;
+}
+
+/**
+ * The error message of acquires once the pool is drained.
+ */
+const DRAINED = 'Cannot acquire connections once the pool is drained';
+
+/**
+ * SQLite pool responsible for reusing SQLite connections.
+ * @example
+ *
+ * // Create a pool of up to 5 connections
+ * const pool = new SQLitePool('./database.sqlite', { max: 5 });
+ *
+ * // Acquire a connection, and release it once you are done
+ * const connection = await pool.acquire();
+ * const users = await connection.query('SELECT * FROM users;');
+ * await pool.release(connection);
+ *
+ * // Or let the pool release it for you
+ * const users = await pool.use((connection) => {
+ *   return connection.query('SELECT * FROM users;');
+ * });
+ *
+ * // Close every connection
+ * await pool.drain();
+ *
+ * @note
+ * - SQLite allows one writer at a time, use `single-writer` mode to queue writes in the pool instead of failing with `SQLITE_BUSY`.
+ * - In `single-writer` mode, readers are opened in `readonly` mode, so the database file must exist.
+ */
+export class SQLitePool {
+  /**
+   * The driver used to create the connections that write.
+   */
+  public driver: SQLite;
+
+  /**
+   * The pool options.
+   */
+  private options: SQLitePoolOptions;
+
+  /**
+   * The connections that write, and every connection in `shared` mode.
+   */
+  private writers: Bucket;
+
+  /**
+   * The read-only connections in `single-writer` mode.
+   */
+  private readers?: Bucket;
+
+  /**
+   * The acquired connections and the bucket they belong to.
+   */
+  private busy = new Map<SQLiteConnection, Bucket>();
+
+  /**
+   * Resolves the pending `drain()` once every connection is closed.
+   */
+  private drained?: () => void;
+
+  /**
+   * The number of connections being opened or validated, which `drain()` waits for.
+   */
+  private pending = 0;
+
+  /**
+   * Whether the pool is drained.
+   */
+  private closed = false;
+
+  /**
+   * Constructs a SQLite pool with the given database and pool options.
+   * @param path SQLite database file path, or the driver options.
+   * @param options The pool options.
+   * @throws `CreateConnectionError` If the options are invalid.
+   */
+  constructor(path: string | SQLiteOptions, options: SQLitePoolOptions = {}) {
+    const config = (isStr(path) ? { path } : path) as SQLiteOptions;
+
+    if (!isObj(options) || isArr(options)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool options: ${String(options)}`
+      );
+    }
+
+    const min = isDefined(options.min) ? options.min : 0;
+    const max = isDefined(options.max) ? options.max : 10;
+
+    if (!isCount(min)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool min: ${String(min)}`
+      );
+    }
+
+    if (!isInt(max) || max < 1 || max < min) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool max: ${String(max)}`
+      );
+    }
+
+    const acquireTimeout = isDefined(options.acquireTimeout)
+      ? options.acquireTimeout
+      : 10000;
+
+    if (!isCount(acquireTimeout) || acquireTimeout === 0) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool acquire timeout: ${String(acquireTimeout)}`
+      );
+    }
+
+    const idleTimeout = isDefined(options.idleTimeout)
+      ? options.idleTimeout
+      : 30000;
+
+    if (!isCount(idleTimeout)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool idle timeout: ${String(idleTimeout)}`
+      );
+    }
+
+    if (isDefined(options.validationQuery) && !isStr(options.validationQuery)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool validation query: ${String(options.validationQuery)}`
+      );
+    }
+
+    const mode = isDefined(options.mode) ? options.mode : 'shared';
+
+    if (!POOL_MODES.includes(mode)) {
+      throw new CreateConnectionError(
+        `Invalid SQLite pool mode: ${String(mode)}`
+      );
+    }
+
+    this.options = {
+      min,
+      max,
+      acquireTimeout,
+      idleTimeout,
+      validationQuery: options.validationQuery,
+      mode,
+    };
+
+    this.driver = new SQLite(config);
+
+    const bucket = (driver: SQLite, max: number): Bucket => {
+      return {
+        driver,
+        min: Math.min(min, max),
+        max,
+        size: 0,
+        idle: [],
+        waiters: [],
+      };
+    };
+
+    if (mode === 'single-writer') {
+      this.writers = bucket(this.driver, 1);
+      this.readers = bucket(new SQLite({ ...config, mode: 'readonly' }), max);
+    } else {
+      this.writers = bucket(this.driver, max);
+    }
+  }
+
+  /**
+   * Acquires a connection from the pool.
+   * @param options Whether the connection is only used to read.
+   * @returns A `Promise` that resolves with the connection.
+   * @throws `CreateConnectionError` If the pool is drained, the connection cannot be created, or no connection is released in time.
+   * @note Always release the connection once you are done, so others can use it.
+   */
+  public acquire(options?: SQLiteAcquireOptions): Promise<SQLiteConnection> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) return reject(new CreateConnectionError(DRAINED));
+
+      if (
+        isDefined(options) &&
+        (!isObj(options) ||
+          (isDefined(options.readonly) && !isBool(options.readonly)))
+      ) {
+        return reject(
+          new CreateConnectionError(
+            `Invalid acquire options: ${String(options)}`
+          )
+        );
+      }
+
+      const bucket =
+        isDefined(options) && options.readonly && isDefined(this.readers)
+          ? this.readers
+          : this.writers;
+
+      return this.checkout(bucket).then(resolve, reject);
+    });
+  }
+
+  /**
+   * Returns the given connection to the pool.
+   * @param connection The acquired connection.
+   * @returns A `Promise` that resolves once the connection is back in the pool.
+   * @throws `CloseConnectionError` If the connection was not acquired from the pool.
+   * @note Open transactions are rolled back, and the connection is closed if that fails.
+   */
+  public release(connection: SQLiteConnection): Promise<void> {
+    const bucket = this.busy.get(connection);
+
+    if (!isDefined(bucket)) {
+      return Promise.reject(
+        new CloseConnectionError(
+          'Cannot release a connection that was not acquired from the pool'
+        )
+      );
+    }
+
+    this.busy.delete(connection);
+
+    const reset = connection.inTransaction
+      ? connection
+          .rollback()
+          .then(() => (connection.inTransaction ? Promise.reject() : true))
+          .catch(() => false)
+      : Promise.resolve(true);
+
+    return reset.then((reusable) => {
+      if (!reusable || this.closed) return this.destroy(bucket, connection);
+      this.checkin(bucket, connection);
+    });
+  }
+
+  /**
+   * Acquires a connection, runs the given callback with it, then releases it.
+   * @param callback The callback to run, receives the connection.
+   * @param options Whether the connection is only used to read.
+   * @returns A `Promise` that resolves with the callback result.
+   */
+  public use<T>(
+    callback: (connection: SQLiteConnection) => T | Promise<T>,
+    options?: SQLiteAcquireOptions
+  ): Promise<T> {
+    if (!isFunc(callback)) {
+      return Promise.reject(
+        new CreateConnectionError(`Invalid callback: ${String(callback)}`)
+      );
+    }
+
+    return this.acquire(options).then((connection) => {
+      return new Promise<T>((resolve) => resolve(callback(connection))).then(
+        (result) => this.release(connection).then(() => result),
+        (error) => this.release(connection).then(() => Promise.reject(error))
+      );
+    });
+  }
+
+  /**
+   * Closes every connection, waiting for the acquired ones to be released.
+   * @returns A `Promise` that resolves once every connection is closed.
+   * @note Pending acquires are rejected, connections still opening are closed once open, and the pool cannot be used afterwards.
+   */
+  public drain(): Promise<void> {
+    this.closed = true;
+
+    const buckets = [this.writers, this.readers].filter(isDefined);
+
+    buckets.forEach((bucket) => {
+      bucket.waiters.splice(0).forEach((waiter) => {
+        clearTimeout(waiter.timer);
+        waiter.reject(new CreateConnectionError(DRAINED));
+      });
+    });
+
+    const idle = buckets.map((bucket) => {
+      return Promise.all(
+        bucket.idle.splice(0).map((entry) => {
+          clearTimeout(entry.timer);
+          return this.destroy(bucket, entry.connection);
+        })
+      );
+    });
+
+    return Promise.all(idle).then(() => {
+      return new Promise<void>((resolve) => {
+        this.drained = resolve;
+        this.settle();
+      });
+    });
+  }
+
+  /**
+   * Hands out an idle connection, creates one, or waits for one to be released.
+   * @param bucket The connections to acquire from.
+   * @returns A `Promise` that resolves with the connection.
+   */
+  private checkout(bucket: Bucket): Promise<SQLiteConnection> {
+    const entry = bucket.idle.pop();
+
+    if (isDefined(entry)) {
+      clearTimeout(entry.timer);
+      this.pending++;
+
+      return this.validate(entry.connection).then((valid) => {
+        this.pending--;
+
+        // The pool may be drained while the connection is validated
+        if (this.closed) {
+          return this.destroy(bucket, entry.connection).then(() =>
+            Promise.reject(new CreateConnectionError(DRAINED))
+          );
+        }
+
+        if (valid) return this.lend(bucket, entry.connection);
+
+        // Replace the broken connection
+        return this.destroy(bucket, entry.connection).then(() => {
+          return this.checkout(bucket);
+        });
+      });
+    }
+
+    if (bucket.size < bucket.max) {
+      bucket.size++;
+
+      return this.open(bucket).then(
+        (connection) => this.lend(bucket, connection),
+        (error) => {
+          this.dispatch(bucket);
+          return Promise.reject(error);
+        }
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          bucket.waiters.splice(bucket.waiters.indexOf(waiter), 1);
+          reject(
+            new CreateConnectionError(
+              `Timed out acquiring a connection after ${this.options.acquireTimeout}ms`
+            )
+          );
+        }, this.options.acquireTimeout),
+      };
+
+      bucket.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Marks the given connection as acquired.
+   * @param bucket The bucket of the connection.
+   * @param connection The connection.
+   * @returns The connection.
+   */
+  private lend(bucket: Bucket, connection: SQLiteConnection): SQLiteConnection {
+    this.busy.set(connection, bucket);
+    return connection;
+  }
+
+  /**
+   * Hands the given connection to the next waiter, or keeps it idle.
+   * @param bucket The bucket of the connection.
+   * @param connection The released connection.
+   */
+  private checkin(bucket: Bucket, connection: SQLiteConnection): void {
+    const waiter = bucket.waiters.shift();
+
+    if (isDefined(waiter)) {
+      clearTimeout(waiter.timer);
+      return waiter.resolve(this.lend(bucket, connection));
+    }
+
+    const entry: Idle = { connection };
+
+    this.expire(bucket, entry);
+    bucket.idle.push(entry);
+  }
+
+  /**
+   * Closes the given idle connection once the idle timeout elapses.
+   * @param bucket The bucket of the connection.
+   * @param entry The idle connection.
+   * @note Connections kept for the minimum are checked again after another idle timeout.
+   */
+  private expire(bucket: Bucket, entry: Idle): void {
+    const { idleTimeout } = this.options;
+    if (idleTimeout === 0) return;
+
+    entry.timer = setTimeout(() => {
+      if (bucket.size <= bucket.min) return this.expire(bucket, entry);
+
+      bucket.idle.splice(bucket.idle.indexOf(entry), 1);
+      this.destroy(bucket, entry.connection);
+    }, idleTimeout);
+
+    // Idle connections should not keep the process alive
+    entry.timer.unref();
+  }
+
+  /**
+   * Creates a connection for the next waiter, if any.
+   * @param bucket The bucket that has room for a connection.
+   */
+  private dispatch(bucket: Bucket): void {
+    const waiter = bucket.waiters.shift();
+    if (!isDefined(waiter)) return;
+
+    clearTimeout(waiter.timer);
+    this.checkout(bucket).then(waiter.resolve, waiter.reject);
+  }
+
+  /**
+   * Opens idle connections until the bucket has its minimum number of connections.
+   * @param bucket The bucket to fill.
+   * @note Connections that fail to open are given up until another connection is closed.
+   */
+  private fill(bucket: Bucket): void {
+    while (!this.closed && bucket.size < bucket.min) {
+      bucket.size++;
+
+      this.open(bucket).then(
+        (connection) => this.checkin(bucket, connection),
+        () => undefined
+      );
+    }
+  }
+
+  /**
+   * Opens a connection the bucket already counts.
+   * @param bucket The bucket of the connection.
+   * @returns A `Promise` that resolves with the connection.
+   * @throws `CreateConnectionError` If the connection cannot be created, or the pool is drained while it opens.
+   * @note Connections that open once the pool is drained are closed right away.
+   */
+  private open(bucket: Bucket): Promise<SQLiteConnection> {
+    this.pending++;
+
+    return bucket.driver.create().then(
+      (connection) => {
+        this.pending--;
+        if (!this.closed) return connection as SQLiteConnection;
+
+        return this.destroy(bucket, connection as SQLiteConnection).then(() =>
+          Promise.reject(new CreateConnectionError(DRAINED))
+        );
+      },
+      (error) => {
+        this.pending--;
+        bucket.size--;
+        this.settle();
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Resolves the pending `drain()` once no connection is acquired, opening or validated.
+   */
+  private settle(): void {
+    if (!this.closed || !isDefined(this.drained)) return;
+    if (this.busy.size === 0 && this.pending === 0) this.drained();
+  }
+
+  /**
+   * Checks the given connection with the validation query.
+   * @param connection The idle connection.
+   * @returns A `Promise` that resolves with `true` if the connection works, `false` otherwise.
+   */
+  private validate(connection: SQLiteConnection): Promise<boolean> {
+    const sql = this.options.validationQuery;
+    if (!isDefined(sql)) return Promise.resolve(true);
+
+    return connection.query(sql).then(
+      () => true,
+      () => false
+    );
+  }
+
+  /**
+   * Closes the given connection and makes room for another one.
+   * @param bucket The bucket of the connection.
+   * @param connection The connection to close.
+   * @returns A `Promise` that resolves once the connection is closed.
+   * @note The connection stops counting right away, so idle timers that fire together keep the minimum.
+   * @note Close errors are ignored, since the connection is discarded anyway.
+   */
+  private destroy(bucket: Bucket, connection: SQLiteConnection): Promise<void> {
+    bucket.size--;
+
+    return connection
+      .close()
+      .catch(() => undefined)
+      .then(() => {
+        if (this.closed) return this.settle();
+
+        this.dispatch(bucket);
+        this.fill(bucket);
+      });
+  }
+}
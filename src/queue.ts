@@ -0,0 +1,26 @@
+/**
+ * Runs the given task, possibly after the tasks scheduled before it.
+ */
+export type Schedule = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs the given task right away.
+ * @param task The task to run.
+ * @returns The task result.
+ */
+export const direct: Schedule = (task) => task();
+
+/**
+ * Creates a FIFO queue that runs one task at a time.
+ * @returns A function that schedules a task, and resolves or rejects with its result.
+ * @note A failed task does not affect the tasks scheduled after it.
+ */
+export function queue(): Schedule {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(() => task());
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
@@ -0,0 +1,335 @@
+import { QueryError } from '@megaorm/errors';
+import { isDefined, isStr } from '@megaorm/test';
+import { isAlias } from './attach';
+import { SQLiteValues } from './values';
+
+/**
+ * A table or view.
+ */
+export interface SQLiteTable {
+  /**
+   * The table name.
+   */
+  name: string;
+
+  /**
+   * Whether this is a table or a view.
+   */
+  type: 'table' | 'view';
+
+  /**
+   * The `CREATE` statement of the table.
+   */
+  sql: string;
+}
+
+/**
+ * A column of a table or view.
+ */
+export interface SQLiteColumn {
+  /**
+   * The column name.
+   */
+  name: string;
+
+  /**
+   * The declared type, like `INTEGER` or `VARCHAR(255)`, empty if none is declared.
+   */
+  type: string;
+
+  /**
+   * Whether the column accepts `NULL`.
+   */
+  nullable: boolean;
+
+  /**
+   * The default value as a SQL expression, like `'active'` or `CURRENT_TIMESTAMP`, `null` if there is none.
+   */
+  default: string | null;
+
+  /**
+   * The position of the column in the primary key starting at `1`, `0` if it is not part of the primary key.
+   */
+  primaryKey: number;
+}
+
+/**
+ * An index of a table.
+ */
+export interface SQLiteIndex {
+  /**
+   * The index name.
+   */
+  name: string;
+
+  /**
+   * Whether the index enforces unique values.
+   */
+  unique: boolean;
+
+  /**
+   * How the index was created.
+   * - `create`: With `CREATE INDEX`.
+   * - `unique`: By a `UNIQUE` constraint.
+   * - `primaryKey`: By a `PRIMARY KEY` constraint.
+   */
+  origin: 'create' | 'unique' | 'primaryKey';
+
+  /**
+   * Whether the index has a `WHERE` clause.
+   */
+  partial: boolean;
+
+  /**
+   * The indexed columns in order, `null` for expressions.
+   */
+  columns: Array<string | null>;
+}
+
+/**
+ * A foreign key of a table.
+ */
+export interface SQLiteForeignKey {
+  /**
+   * The foreign key id, unique within the table.
+   */
+  id: number;
+
+  /**
+   * The referenced table.
+   */
+  table: string;
+
+  /**
+   * The columns of the table, in order.
+   */
+  from: Array<string>;
+
+  /**
+   * The referenced columns in order, `null` when the primary key of the referenced table is implied.
+   */
+  to: Array<string | null>;
+
+  /**
+   * The `ON UPDATE` action, like `CASCADE` or `NO ACTION`.
+   */
+  onUpdate: string;
+
+  /**
+   * The `ON DELETE` action, like `CASCADE` or `NO ACTION`.
+   */
+  onDelete: string;
+}
+
+/**
+ * A trigger.
+ */
+export interface SQLiteTrigger {
+  /**
+   * The trigger name.
+   */
+  name: string;
+
+  /**
+   * The table or view the trigger is attached to.
+   */
+  table: string;
+
+  /**
+   * The `CREATE TRIGGER` statement.
+   */
+  sql: string;
+}
+
+/**
+ * Reads the schema of a database.
+ */
+export interface SQLiteSchema {
+  /**
+   * Lists the tables, without the internal `sqlite_` tables.
+   * @returns A `Promise` that resolves with the tables ordered by name.
+   */
+  tables(): Promise<Array<SQLiteTable>>;
+
+  /**
+   * Lists the views.
+   * @returns A `Promise` that resolves with the views ordered by name.
+   */
+  views(): Promise<Array<SQLiteTable>>;
+
+  /**
+   * Lists the columns of the given table or view.
+   * @param table The table name.
+   * @returns A `Promise` that resolves with the columns in declaration order, empty if the table does not exist.
+   */
+  columns(table: string): Promise<Array<SQLiteColumn>>;
+
+  /**
+   * Lists the indexes of the given table.
+   * @param table The table name.
+   * @returns A `Promise` that resolves with the indexes and their columns.
+   */
+  indexes(table: string): Promise<Array<SQLiteIndex>>;
+
+  /**
+   * Lists the foreign keys of the given table.
+   * @param table The table name.
+   * @returns A `Promise` that resolves with the foreign keys, composite keys listing every column.
+   */
+  foreignKeys(table: string): Promise<Array<SQLiteForeignKey>>;
+
+  /**
+   * Lists the triggers, of every table or of the given table.
+   * @param table The table name.
+   * @returns A `Promise` that resolves with the triggers ordered by name.
+   */
+  triggers(table?: string): Promise<Array<SQLiteTrigger>>;
+}
+
+/**
+ * Maps the index origins to their names.
+ */
+const ORIGINS: Record<string, SQLiteIndex['origin']> = {
+  c: 'create',
+  u: 'unique',
+  pk: 'primaryKey',
+};
+
+/**
+ * Creates a schema reader on the given connection.
+ * @param connection The connection used to read the schema.
+ * @param database The schema name, `main` by default, `temp` or the alias of an attached database.
+ * @returns The schema reader.
+ * @note Every method rejects with a `QueryError` if the schema name or the table name is invalid.
+ */
+export function introspect(
+  connection: {
+    query(sql: string, values?: SQLiteValues): Promise<unknown>;
+  },
+  database: string = 'main'
+): SQLiteSchema {
+  // Reads rows, once the schema name is validated
+  const read = <T>(
+    sql: (schema: string) => string,
+    values: Array<string>
+  ): Promise<Array<T>> => {
+    if (
+      !isStr(database) ||
+      !(['main', 'temp'].includes(database) || isAlias(database))
+    ) {
+      return Promise.reject(
+        new QueryError(`Invalid schema name: ${String(database)}`)
+      );
+    }
+
+    return connection.query(sql(`"${database}"`), values) as Promise<Array<T>>;
+  };
+
+  const isTable = (table: string) => isStr(table) && table.length > 0;
+
+  const invalid = (table: string): Promise<never> => {
+    return Promise.reject(new QueryError(`Invalid table: ${String(table)}`));
+  };
+
+  const list = (type: 'table' | 'view') => {
+    return read<SQLiteTable>(
+      (schema) =>
+        `SELECT name, type, sql FROM ${schema}.sqlite_schema WHERE type = ? AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' ORDER BY name;`,
+      [type]
+    );
+  };
+
+  return {
+    tables: () => list('table'),
+    views: () => list('view'),
+    columns(table) {
+      if (!isTable(table)) return invalid(table);
+
+      return read<any>(
+        () =>
+          'SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?, ?) ORDER BY cid;',
+        [table, database]
+      ).then((rows) =>
+        rows.map((row) => ({
+          name: row.name,
+          type: row.type,
+          nullable: row.notnull === 0,
+          default: row.dflt_value,
+          primaryKey: row.pk,
+        }))
+      );
+    },
+    indexes(table) {
+      if (!isTable(table)) return invalid(table);
+
+      return read<any>(
+        () =>
+          'SELECT name, "unique", origin, partial FROM pragma_index_list(?, ?) ORDER BY name;',
+        [table, database]
+      ).then((rows) =>
+        Promise.all(
+          rows.map((row) =>
+            read<any>(
+              () => 'SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno;',
+              [row.name, database]
+            ).then((columns) => ({
+              name: row.name,
+              unique: row.unique === 1,
+              origin: ORIGINS[row.origin],
+              partial: row.partial === 1,
+              columns: columns.map((column) => column.name),
+            }))
+          )
+        )
+      );
+    },
+    foreignKeys(table) {
+      if (!isTable(table)) return invalid(table);
+
+      return read<any>(
+        () =>
+          'SELECT id, "table", "from", "to", on_update, on_delete FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq;',
+        [table, database]
+      ).then((rows) =>
+        rows.reduce((keys: Array<SQLiteForeignKey>, row) => {
+          let key = keys.find((key) => key.id === row.id);
+
+          if (!isDefined(key)) {
+            key = {
+              id: row.id,
+              table: row.table,
+              from: [],
+              to: [],
+              onUpdate: row.on_update,
+              onDelete: row.on_delete,
+            };
+
+            keys.push(key);
+          }
+
+          key.from.push(row.from);
+          key.to.push(row.to);
+
+          return keys;
+        }, [])
+      );
+    },
+    triggers(table) {
+      if (isDefined(table) && !isTable(table)) return invalid(table);
+
+      const filter = isDefined(table) ? ' AND tbl_name = ?' : '';
+
+      return read<any>(
+        (schema) =>
+          `SELECT name, tbl_name, sql FROM ${schema}.sqlite_schema WHERE type = 'trigger'${filter} ORDER BY name;`,
+        isDefined(table) ? [table] : []
+      ).then((rows) =>
+        rows.map((row) => ({
+          name: row.name,
+          table: row.tbl_name,
+          sql: row.sql,
+        }))
+      );
+    },
+  };
+}
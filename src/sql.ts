@@ -0,0 +1,265 @@
+/**
+ * Placeholders found in a SQL statement.
+ */
+export interface Placeholders {
+  /**
+   * Unique named placeholders in order of appearance, like `:id` or `$name`.
+   */
+  named: Array<string>;
+
+  /**
+   * Whether the statement uses positional placeholders like `?` or `?1`.
+   */
+  positional: boolean;
+}
+
+/**
+ * Blanks out comments, string literals and quoted identifiers in the given SQL.
+ * @param sql The SQL to mask.
+ * @returns The masked SQL, with the same length as the original.
+ * @note
+ * - Comments are replaced with spaces.
+ * - Quotes are kept, while the quoted content is replaced with spaces.
+ * - This allows searching for keywords and placeholders without matching text inside literals.
+ */
+export function mask(sql: string): string {
+  let masked = '';
+  let index = 0;
+
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const next = sql[index + 1];
+
+    // Line comments
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', index);
+      const stop = end === -1 ? sql.length : end;
+      masked += blank(sql.slice(index, stop));
+      index = stop;
+      continue;
+    }
+
+    // Block comments
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', index + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      masked += blank(sql.slice(index, stop));
+      index = stop;
+      continue;
+    }
+
+    // String literals and quoted identifiers
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      let stop = index + 1;
+
+      while (stop < sql.length) {
+        if (sql[stop] === close) {
+          // Quotes are escaped by doubling them, brackets cannot be escaped
+          if (close !== ']' && sql[stop + 1] === close) {
+            stop += 2;
+            continue;
+          }
+
+          break;
+        }
+
+        stop++;
+      }
+
+      masked += char + blank(sql.slice(index + 1, stop));
+      if (stop < sql.length) masked += close;
+      index = stop + 1;
+      continue;
+    }
+
+    masked += char;
+    index++;
+  }
+
+  return masked;
+}
+
+/**
+ * Finds the placeholders used in the given SQL.
+ * @param sql The SQL statement.
+ * @returns The named placeholders and whether positional placeholders are used.
+ * @note Placeholders inside comments, string literals and quoted identifiers are ignored.
+ */
+export function placeholders(sql: string): Placeholders {
+  const masked = mask(sql);
+  const named: Array<string> = [];
+  const pattern = /(^|[^\w$\u0080-\uffff])(\?\d*|[:@$][\w$\u0080-\uffff]+)/g;
+
+  let match: RegExpExecArray | null;
+  let positional = false;
+
+  while ((match = pattern.exec(masked)) !== null) {
+    const token = match[2];
+
+    if (token[0] === '?') positional = true;
+    else if (!named.includes(token)) named.push(token);
+  }
+
+  return { named, positional };
+}
+
+/**
+ * Describes a SQL statement.
+ */
+export interface Statement {
+  /**
+   * The main statement keyword in uppercase, like `SELECT` or `INSERT`.
+   * For `WITH` statements, this is the keyword that follows the common table expressions.
+   */
+  verb: string;
+
+  /**
+   * Whether the statement produces rows.
+   */
+  rows: boolean;
+
+  /**
+   * Whether the statement changes the database.
+   */
+  write: boolean;
+}
+
+/**
+ * Keywords that can follow the common table expressions of a `WITH` statement.
+ */
+const MAIN = ['SELECT', 'VALUES', 'INSERT', 'REPLACE', 'UPDATE', 'DELETE'];
+
+/**
+ * Keywords of statements that always produce rows.
+ */
+const READS = ['SELECT', 'VALUES', 'PRAGMA', 'EXPLAIN'];
+
+/**
+ * Keywords of statements that produce rows with a `RETURNING` clause.
+ */
+const WRITES = ['INSERT', 'REPLACE', 'UPDATE', 'DELETE'];
+
+/**
+ * Keywords of statements that change the schema or the database file.
+ */
+const CHANGES = ['CREATE', 'DROP', 'ALTER', 'REINDEX', 'ANALYZE', 'VACUUM'];
+
+/**
+ * Pragmas that read with an argument, like `PRAGMA table_info(users)`.
+ */
+const READ_PRAGMAS = [
+  'TABLE_INFO',
+  'TABLE_XINFO',
+  'TABLE_LIST',
+  'INDEX_INFO',
+  'INDEX_XINFO',
+  'INDEX_LIST',
+  'FOREIGN_KEY_LIST',
+  'FOREIGN_KEY_CHECK',
+  'INTEGRITY_CHECK',
+  'QUICK_CHECK',
+];
+
+/**
+ * Pragmas that change the database file without an argument.
+ */
+const WRITE_PRAGMAS = ['INCREMENTAL_VACUUM', 'OPTIMIZE', 'WAL_CHECKPOINT'];
+
+/**
+ * Matches a pragma up to its name, which may be quoted, and the `=` or `(` of its value.
+ */
+const PRAGMA =
+  /^(\s*PRAGMA\s+(?:(?:[\w$]+|"[^"]*"|`[^`]*`|\[[^\]]*\])\s*\.\s*)?)([\w$]+|'[^']*'|"[^"]*"|`[^`]*`|\[[^\]]*\])\s*([=(])?/i;
+
+/**
+ * Checks if the given pragma changes a setting or the database.
+ * @param sql The pragma statement.
+ * @param masked The pragma statement, masked with `mask()`.
+ * @returns `true` if the pragma sets a value, unless it reads with an argument, or always changes the database.
+ */
+function writes(sql: string, masked: string): boolean {
+  const match = masked.match(PRAGMA);
+  if (match === null) return false;
+
+  // Quoted names are masked, so they are read from the statement
+  const start = match[1].length;
+  const name = sql
+    .slice(start, start + match[2].length)
+    .replace(/^['"`[]|['"`\]]$/g, '')
+    .toUpperCase();
+
+  if (WRITE_PRAGMAS.includes(name)) return true;
+
+  return match[3] !== undefined && !READ_PRAGMAS.includes(name);
+}
+
+/**
+ * Classifies the given SQL statement.
+ * @param sql The SQL statement.
+ * @returns The statement verb, whether it produces rows and whether it changes the database.
+ * @note
+ * - Leading whitespace and comments are ignored.
+ * - `SELECT`, `VALUES`, `PRAGMA` and `EXPLAIN` statements produce rows.
+ * - `INSERT`, `REPLACE`, `UPDATE` and `DELETE` statements produce rows with a `RETURNING` clause.
+ * - `WITH` statements are classified by the statement that follows the common table expressions.
+ * - Data changes, and `CREATE`, `DROP`, `ALTER`, `REINDEX`, `ANALYZE` and `VACUUM` statements change the database.
+ * - `PRAGMA` statements that set a value, like `PRAGMA query_only = OFF`, change the database too.
+ */
+export function classify(sql: string): Statement {
+  const masked = mask(sql);
+  const words: Array<string> = [];
+  const pattern = /[()]|[a-z_][\w$]*/gi;
+
+  let match: RegExpExecArray | null;
+  let depth = 0;
+
+  // Collect the words outside parentheses
+  while ((match = pattern.exec(masked)) !== null) {
+    if (match[0] === '(') depth++;
+    else if (match[0] === ')') depth--;
+    else if (depth === 0) words.push(match[0].toUpperCase());
+  }
+
+  let verb = words.length > 0 ? words[0] : '';
+
+  if (verb === 'WITH') {
+    verb = words.find((word) => MAIN.includes(word)) || verb;
+  }
+
+  const rows =
+    READS.includes(verb) ||
+    (WRITES.includes(verb) && words.includes('RETURNING'));
+
+  const write =
+    WRITES.includes(verb) ||
+    CHANGES.includes(verb) ||
+    (verb === 'PRAGMA' && writes(sql, masked));
+
+  return { verb, rows, write };
+}
+
+/**
+ * Splits the given SQL script into statements.
+ * @param script The SQL script.
+ * @returns The statements, without the semicolons between them, ignoring empty ones.
+ * @note Semicolons in comments, string literals and quoted identifiers do not split statements.
+ */
+export function split(script: string): Array<string> {
+  const masked = mask(script);
+  const statements: Array<string> = [];
+
+  let start = 0;
+
+  for (let index = 0; index <= masked.length; index++) {
+    if (index < masked.length && masked[index] !== ';') continue;
+
+    const statement = script.slice(start, index);
+    if (mask(statement).trim().length > 0) statements.push(statement);
+    start = index + 1;
+  }
+
+  return statements;
+}
@@ -0,0 +1,342 @@
+import type { Statement } from 'sqlite3';
+import { Row, Rows } from '@megaorm/driver';
+import { QueryError } from '@megaorm/errors';
+import { isDefined } from '@megaorm/test';
+import { isError, redact, wrap } from './errors';
+import { Params, SQLiteDateFormat, SQLiteValues, parameters } from './values';
+import { Schedule, direct } from './queue';
+import { performance } from 'perf_hooks';
+
+/**
+ * The result of running a statement that does not produce rows.
+ */
+export interface SQLiteRunResult {
+  /**
+   * The number of rows inserted, updated or deleted.
+   */
+  changes: number;
+
+  /**
+   * The rowid of the last inserted row on the connection.
+   */
+  lastID: number;
+}
+
+/**
+ * A prepared statement, parsed once and executed many times.
+ */
+export interface SQLitePreparedStatement {
+  /**
+   * The SQL of the statement.
+   */
+  readonly sql: string;
+
+  /**
+   * Executes the statement.
+   * @param values The values to bind.
+   * @returns A `Promise` that resolves with the number of changed rows and the last inserted ID.
+   */
+  run(values?: SQLiteValues): Promise<SQLiteRunResult>;
+
+  /**
+   * Executes the statement and retrieves all rows.
+   * @param values The values to bind.
+   * @returns A `Promise` that resolves with the rows.
+   */
+  all(values?: SQLiteValues): Promise<Rows>;
+
+  /**
+   * Executes the statement and retrieves the first row.
+   * @param values The values to bind.
+   * @returns A `Promise` that resolves with the first row, or `undefined` if there are no rows.
+   */
+  get(values?: SQLiteValues): Promise<Row | undefined>;
+
+  /**
+   * Executes the statement and retrieves the rows one at a time.
+   * @param values The values to bind.
+   * @returns An async iterator over the rows.
+   * @note Breaking out of the iteration resets the statement, so it can be executed again.
+   */
+  iterate(values?: SQLiteValues): AsyncIterableIterator<Row>;
+
+  /**
+   * Releases the statement, it cannot be executed afterwards.
+   * @returns A `Promise` that resolves once the statement is released.
+   */
+  finalize(): Promise<void>;
+}
+
+/**
+ * What an execution returned or changed.
+ */
+export interface ExecutionStats {
+  /**
+   * The number of rows returned, for executions that produce rows.
+   */
+  rows?: number;
+
+  /**
+   * The number of rows inserted, updated or deleted, for executions that do not produce rows.
+   */
+  changes?: number;
+}
+
+/**
+ * Options used to execute a prepared statement.
+ */
+export interface StatementOptions {
+  /**
+   * How dates are stored.
+   */
+  format: SQLiteDateFormat;
+
+  /**
+   * Whether to redact the query values attached to errors.
+   */
+  redactValues: boolean;
+
+  /**
+   * Called once the statement is finalized.
+   */
+  onFinalize?: () => void;
+
+  /**
+   * Called after every successful execution, with the number of rows returned or changed.
+   */
+  onSuccess?: (
+    values: SQLiteValues,
+    start: number,
+    stats: ExecutionStats
+  ) => void;
+
+  /**
+   * Called after every failed execution, with the error it rejects with.
+   */
+  onError?: (values: SQLiteValues, start: number, error: Error) => void;
+
+  /**
+   * Schedules the executions on the connection queue, defaults to running them right away.
+   */
+  schedule?: Schedule;
+}
+
+/**
+ * Creates a prepared statement from a sqlite3 statement.
+ * @param stmt The sqlite3 statement.
+ * @param sql The SQL of the statement.
+ * @param options How values are converted and errors are reported.
+ * @returns The prepared statement.
+ * @note
+ * - Executions run one after another in call order, each row of an iteration being fetched as a separate execution.
+ * - An iteration is reported once, when it ends, fails or is stopped.
+ */
+export function statement(
+  stmt: Statement,
+  sql: string,
+  options: StatementOptions
+): SQLitePreparedStatement {
+  let finalized = false;
+
+  const schedule = isDefined(options.schedule) ? options.schedule : direct;
+
+  // Reports a successful execution
+  const succeed = (
+    values: SQLiteValues,
+    start: number,
+    stats: ExecutionStats
+  ) => {
+    if (isDefined(options.onSuccess)) options.onSuccess(values, start, stats);
+  };
+
+  // Keeps the failed SQL and values with the error, and reports it
+  const failure = (error: Error, values: SQLiteValues, start: number) => {
+    const failed = wrap(QueryError, error, {
+      sql,
+      values: options.redactValues ? redact(values) : values,
+    });
+
+    if (isDefined(options.onError)) options.onError(values, start, failed);
+    return failed;
+  };
+
+  // Converts the values, then runs the given execution
+  const execute = <T>(
+    values: SQLiteValues,
+    run: (
+      params: Params,
+      fail: (error: Error) => void,
+      resolve: (result: T) => void
+    ) => void,
+    stats?: (result: T) => ExecutionStats
+  ): Promise<T> => {
+    return schedule(
+      () =>
+        new Promise<T>((resolve, reject) => {
+          if (finalized) {
+            return reject(
+              new QueryError('Cannot execute a statement once it is finalized')
+            );
+          }
+
+          let params: Params;
+
+          try {
+            params = parameters(sql, values, options.format);
+          } catch (error) {
+            return reject(error);
+          }
+
+          const start = performance.now();
+
+          run(
+            params,
+            (error) => reject(failure(error, values, start)),
+            (result) => {
+              if (isDefined(stats)) succeed(values, start, stats(result));
+              resolve(result);
+            }
+          );
+        })
+    );
+  };
+
+  const prepared: SQLitePreparedStatement = {
+    sql,
+    run(values) {
+      return execute<SQLiteRunResult>(
+        values,
+        (params, fail, resolve) => {
+          const callback = function (error: Error) {
+            if (isError(error)) return fail(error);
+            resolve({ changes: this.changes, lastID: this.lastID });
+          };
+
+          if (isDefined(params)) return stmt.run(params, callback);
+          stmt.run(callback);
+        },
+        (result) => ({ changes: result.changes })
+      );
+    },
+    all(values) {
+      return execute<Rows>(
+        values,
+        (params, fail, resolve) => {
+          const callback = (error: Error, rows: Rows) => {
+            if (isError(error)) return fail(error);
+            resolve(rows);
+          };
+
+          if (isDefined(params)) return stmt.all(params, callback);
+          stmt.all(callback);
+        },
+        (rows) => ({ rows: rows.length })
+      );
+    },
+    get(values) {
+      return execute<Row>(
+        values,
+        (params, fail, resolve) => {
+          // Reset, so the next execution starts from the first row
+          const callback = (error: Error, row: Row) => {
+            stmt.reset(() => (isError(error) ? fail(error) : resolve(row)));
+          };
+
+          if (isDefined(params)) return stmt.get(params, callback);
+          stmt.get(callback);
+        },
+        (row) => ({ rows: isDefined(row) ? 1 : 0 })
+      );
+    },
+    iterate(values) {
+      let started: Promise<void>;
+      let done = false;
+      let start: number;
+      let count = 0;
+
+      const end = (): Promise<IteratorResult<Row>> => {
+        done = true;
+
+        return new Promise((resolve) => {
+          if (finalized) return resolve({ done: true, value: undefined });
+          stmt.reset(() => resolve({ done: true, value: undefined }));
+        });
+      };
+
+      // Binds the values, or resets the statement if there are none
+      const bind = () => {
+        start = performance.now();
+
+        return execute<void>(values, (params, fail, resolve) => {
+          const callback = (error: Error) => {
+            if (isError(error)) return fail(error);
+            resolve();
+          };
+
+          if (isDefined(params)) return stmt.bind(params, callback);
+          stmt.reset(callback as () => void);
+        });
+      };
+
+      const iterator: AsyncIterableIterator<Row> = {
+        [Symbol.asyncIterator]() {
+          return iterator;
+        },
+        next() {
+          if (done) return Promise.resolve({ done: true, value: undefined });
+          if (!isDefined(started)) {
+            started = bind().catch((error) =>
+              end().then(() => Promise.reject(error))
+            );
+          }
+
+          return started.then(() => {
+            return schedule(
+              () =>
+                new Promise<IteratorResult<Row>>((resolve, reject) => {
+                  if (done) return resolve({ done: true, value: undefined });
+
+                  stmt.get((error: Error, row: Row) => {
+                    if (isError(error)) {
+                      const failed = failure(error, values, start);
+                      return end().then(() => reject(failed));
+                    }
+
+                    if (!isDefined(row)) {
+                      succeed(values, start, { rows: count });
+                      return end().then(resolve);
+                    }
+
+                    count++;
+                    resolve({ done: false, value: row });
+                  });
+                })
+            );
+          });
+        },
+        return() {
+          if (done) return Promise.resolve({ done: true, value: undefined });
+
+          // Report the rows read so far, if the iteration started
+          if (isDefined(start)) succeed(values, start, { rows: count });
+          return end();
+        },
+      };
+
+      return iterator;
+    },
+    finalize() {
+      return new Promise<void>((resolve) => {
+        if (finalized) return resolve();
+        finalized = true;
+
+        stmt.finalize(() => {
+          if (isDefined(options.onFinalize)) options.onFinalize();
+          resolve();
+        });
+      });
+    },
+  };
+
+  return prepared;
+}
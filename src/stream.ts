@@ -0,0 +1,55 @@
+import { Readable } from 'stream';
+import { Row } from '@megaorm/driver';
+import { isDefined } from '@megaorm/test';
+import { SQLitePreparedStatement } from './statement';
+import { SQLiteValues } from './values';
+import { Caster, decode } from './casts';
+
+/**
+ * Creates a stream of the rows produced by the given statement.
+ * @param prepared A `Promise` that resolves with the prepared statement.
+ * @param values The values to bind.
+ * @param casters Decode the columns of every row, by column name.
+ * @returns A `Readable` in object mode, emitting one row at a time.
+ * @note
+ * - Rows are only fetched when the consumer asks for them, so memory stays flat for large results.
+ * - The statement is finalized once the stream ends, fails or is destroyed.
+ * - The stream is destroyed with the error if the statement cannot be prepared.
+ */
+export function stream(
+  prepared: Promise<SQLitePreparedStatement>,
+  values?: SQLiteValues,
+  casters?: Record<string, Caster>
+): Readable {
+  let iterator: AsyncIterableIterator<Row>;
+
+  const readable = new Readable({
+    objectMode: true,
+    read() {
+      prepared
+        .then((statement) => {
+          if (!isDefined(iterator)) iterator = statement.iterate(values);
+          return iterator.next();
+        })
+        .then((result) =>
+          this.push(result.done ? null : decode(result.value, casters))
+        )
+        .catch((error) => this.destroy(error));
+    },
+    destroy(error, callback) {
+      prepared
+        .then((statement) => {
+          // Stop the iteration first, so it is reported with the rows read
+          if (!isDefined(iterator)) return statement.finalize();
+          return iterator.return().then(() => statement.finalize());
+        })
+        .catch(() => undefined)
+        .then(() => callback(error));
+    },
+  });
+
+  // Fail right away if the statement cannot be prepared, even if no row is read
+  prepared.catch((error) => readable.destroy(error));
+
+  return readable;
+}
@@ -0,0 +1,191 @@
+import { QueryError } from '@megaorm/errors';
+import { isArr, isBool, isDefined, isFunc, isNum, isObj } from '@megaorm/test';
+import { isStr } from '@megaorm/test';
+import { placeholders } from './sql';
+
+/**
+ * How `Date` query values are stored:
+ * - `iso`: ISO 8601 text like `2024-01-01T00:00:00.000Z`.
+ * - `unix`: Integer number of seconds since the unix epoch.
+ * - `millis`: Integer number of milliseconds since the unix epoch.
+ */
+export type SQLiteDateFormat = 'iso' | 'unix' | 'millis';
+
+/**
+ * A value that can be bound to a query placeholder.
+ */
+export type SQLiteValue =
+  null | string | number | boolean | bigint | Buffer | Uint8Array | Date;
+
+/**
+ * Query values: an array for positional placeholders, or an object for named placeholders.
+ */
+export type SQLiteValues = Array<SQLiteValue> | Record<string, SQLiteValue>;
+
+/**
+ * A query value converted to a value sqlite3 can bind.
+ */
+export type Param = string | number | Buffer | null;
+
+/**
+ * Query values converted to values sqlite3 can bind.
+ */
+export type Params = Array<Param> | Record<string, Param>;
+
+/**
+ * Names the type of the given value.
+ * @param value The value.
+ * @returns The constructor name of objects, like `Map`, or the `typeof` the value.
+ */
+function typeOf(value: unknown): string {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    isFunc(value.constructor)
+  ) {
+    return value.constructor.name;
+  }
+
+  return typeof value;
+}
+
+/**
+ * Converts a query value to a value sqlite3 can bind.
+ * @param value The query value.
+ * @param at Where the value is in the query values, like `at index 0` or `for :id`.
+ * @param format How dates are stored.
+ * @returns The value to bind.
+ * @throws `QueryError` If the value type is not supported.
+ */
+function encode(
+  value: SQLiteValue,
+  at: string,
+  format: SQLiteDateFormat
+): Param {
+  if (value === null) return null;
+  if (isStr(value) || isNum(value)) return value as string | number;
+  if (isBool(value)) return value ? 1 : 0;
+
+  if (typeof value === 'bigint') {
+    // Beyond the safe range, INTEGER affinity converts the text losslessly
+    if (
+      value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+      value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      return Number(value);
+    }
+
+    return value.toString();
+  }
+
+  if (Buffer.isBuffer(value)) return value;
+
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+
+  if (value instanceof Date) {
+    const time = value.getTime();
+
+    if (Number.isNaN(time)) {
+      throw new QueryError(`Invalid query value ${at}: Invalid Date`);
+    }
+
+    if (format === 'unix') return Math.floor(time / 1000);
+    if (format === 'millis') return time;
+    return value.toISOString();
+  }
+
+  throw new QueryError(
+    `Invalid query value ${at}: unsupported type ${typeOf(value)}`
+  );
+}
+
+/**
+ * Checks if the given value is a plain object.
+ * @param value The value to check.
+ * @returns `true` if the value is a plain object, `false` otherwise.
+ */
+export function isPlain(value: any): boolean {
+  if (!isObj(value) || isArr(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Binds named query values to the named placeholders of the given SQL.
+ * @param sql The SQL statement.
+ * @param values The named query values, keyed with or without the placeholder prefix.
+ * @param format How dates are stored.
+ * @returns The values keyed by placeholder, like `{ ':id': 1 }`.
+ * @throws `QueryError` If a placeholder has no value, a value has no placeholder, or a value is invalid.
+ */
+function bind(
+  sql: string,
+  values: Record<string, SQLiteValue>,
+  format: SQLiteDateFormat
+): Record<string, Param> {
+  const { named, positional } = placeholders(sql);
+
+  if (positional) {
+    throw new QueryError(
+      'Named query values cannot be bound to positional placeholders'
+    );
+  }
+
+  const names = named.map((token) => token.slice(1));
+
+  Object.keys(values).forEach((key) => {
+    const name = /^[:@$]/.test(key) ? key.slice(1) : key;
+
+    if (!names.includes(name)) {
+      throw new QueryError(`Unknown query value: ${key}`);
+    }
+  });
+
+  const params: Record<string, Param> = {};
+
+  named.forEach((token) => {
+    const name = token.slice(1);
+    const has = (key: string) =>
+      Object.prototype.hasOwnProperty.call(values, key);
+
+    const key = has(name) ? name : has(token) ? token : undefined;
+
+    if (!isDefined(key)) {
+      throw new QueryError(`Missing query value for ${token}`);
+    }
+
+    params[token] = encode(values[key], `for ${token}`, format);
+  });
+
+  return params;
+}
+
+/**
+ * Converts query values to values sqlite3 can bind.
+ * @param sql The SQL statement.
+ * @param values An array of values for positional placeholders, or an object for named placeholders.
+ * @param format How dates are stored.
+ * @returns The values to bind, or `undefined` if no values are given.
+ * @throws `QueryError` If the values are invalid.
+ */
+export function parameters(
+  sql: string,
+  values: SQLiteValues,
+  format: SQLiteDateFormat
+): Params {
+  if (!isDefined(values)) return undefined;
+
+  if (isArr(values)) {
+    return (values as Array<SQLiteValue>).map((value, index) =>
+      encode(value, `at index ${index}`, format)
+    );
+  }
+
+  if (!isPlain(values)) {
+    throw new QueryError(`Invalid query values: ${String(values)}`);
+  }
+
+  return bind(sql, values as Record<string, SQLiteValue>, format);
+}
@@ -0,0 +1,766 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { existsSync, mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { writeFileSync } from 'fs';
+import { isBuiltin } from 'module';
+
+import { SQLite, SQLiteConnection, SQLiteEngine } from '../src';
+import { BackupError, ReadOnlyError, SQLiteMigrator } from '../src';
+import { QueryTimeoutError } from '../src';
+import { CreateConnectionError } from '@megaorm/errors';
+import { QueryError } from '@megaorm/errors';
+
+// Every engine runs the same suite, node:sqlite only ships with Node.js 22.13 and later
+const engines: Array<SQLiteEngine> = isBuiltin('node:sqlite')
+  ? ['sqlite3', 'node:sqlite', 'better-sqlite3']
+  : ['sqlite3', 'better-sqlite3'];
+
+const file = (name: string) => {
+  const path = join(tmpdir(), `megaorm-${process.pid}-${name}.sqlite`);
+  if (existsSync(path)) unlinkSync(path);
+  return path;
+};
+
+// Checks if the given row is a plain object, node:sqlite rows have no prototype
+const isPlain = (row: unknown) => {
+  const prototype = Object.getPrototypeOf(row);
+  return prototype !== null && Object.getPrototypeOf(prototype) === null;
+};
+
+// Creates a directory with the given migration files
+const migrations = (files: Record<string, string>) => {
+  const directory = mkdtempSync(join(tmpdir(), 'megaorm-migrations-'));
+
+  Object.entries(files).forEach(([name, content]) =>
+    writeFileSync(join(directory, name), content)
+  );
+
+  return directory;
+};
+
+describe.each(engines)('%s engine', (engine) => {
+  describe('conformance', () => {
+    let connection: SQLiteConnection;
+
+    beforeEach(async () => {
+      connection = await new SQLite({ path: ':memory:', engine }).create();
+
+      await connection.exec(
+        `CREATE TABLE users (
+          id INTEGER PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE,
+          age INTEGER
+        );`
+      );
+    });
+
+    afterEach(async () => {
+      await connection.close();
+    });
+
+    it('should run queries', async () => {
+      await expect(
+        connection.query('INSERT INTO users (email, age) VALUES (?, ?);', [
+          'a@test.com',
+          20,
+        ])
+      ).resolves.toBe(1);
+
+      await expect(
+        connection.query(
+          'INSERT INTO users (email, age) VALUES (?, ?), (?, ?);',
+          ['b@test.com', 30, 'c@test.com', 40]
+        )
+      ).resolves.toBeUndefined();
+
+      const selected = await connection.query(
+        'SELECT email FROM users WHERE age > :age;',
+        { age: 25 }
+      );
+
+      expect(selected).toEqual([
+        { email: 'b@test.com' },
+        { email: 'c@test.com' },
+      ]);
+      expect((selected as Array<unknown>).every(isPlain)).toBe(true);
+
+      await expect(
+        connection.query('UPDATE users SET age = age + 1;', undefined, {
+          resultMode: 'detailed',
+        })
+      ).resolves.toEqual({ changes: 3, lastID: expect.any(Number) });
+
+      await expect(
+        connection.query('DELETE FROM users RETURNING id;')
+      ).resolves.toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('should reject with QueryError', async () => {
+      await connection.query('INSERT INTO users (email) VALUES (?);', ['a']);
+
+      const duplicate = connection.query(
+        'INSERT INTO users (email) VALUES (?);',
+        ['a']
+      );
+
+      await expect(duplicate).rejects.toThrow(QueryError);
+      await expect(duplicate).rejects.toMatchObject({
+        message: 'SQLITE_CONSTRAINT: UNIQUE constraint failed: users.email',
+        code: 'SQLITE_CONSTRAINT',
+        errno: 19,
+        constraint: 'unique',
+        sql: 'INSERT INTO users (email) VALUES (?);',
+        values: ['a'],
+      });
+
+      await expect(connection.query('SELEC 1;')).rejects.toMatchObject({
+        code: 'SQLITE_ERROR',
+        errno: 1,
+      });
+    });
+
+    it('should detect the failed constraint kind', async () => {
+      const db = await new SQLite({
+        path: ':memory:',
+        engine,
+        foreignKeys: true,
+      }).create();
+
+      await db.exec(
+        `CREATE TABLE codes (
+          id INTEGER PRIMARY KEY,
+          unique_code TEXT NOT NULL UNIQUE,
+          age INTEGER CHECK (age > 0),
+          parent INTEGER REFERENCES codes (id)
+        );
+        INSERT INTO codes (id, unique_code) VALUES (1, 'a');`
+      );
+
+      const kinds = {
+        "INSERT INTO codes (unique_code) VALUES ('a');": 'unique',
+        'INSERT INTO codes (unique_code) VALUES (NULL);': 'notNull',
+        "INSERT INTO codes (unique_code, age) VALUES ('b', 0);": 'check',
+        "INSERT INTO codes (unique_code, parent) VALUES ('b', 9);":
+          'foreignKey',
+        // Only the extended codes of the other engines tell primary keys apart
+        "INSERT INTO codes (id, unique_code) VALUES (1, 'b');":
+          engine === 'sqlite3' ? 'unique' : 'primaryKey',
+      };
+
+      for (const [sql, kind] of Object.entries(kinds)) {
+        await expect(db.query(sql)).rejects.toMatchObject({
+          code: 'SQLITE_CONSTRAINT',
+          constraint: kind,
+        });
+      }
+
+      await db.close();
+    });
+
+    it('should commit and roll back transactions', async () => {
+      await connection.beginTransaction();
+      await connection.query('INSERT INTO users (email) VALUES (?);', ['a']);
+
+      // Nested transactions use savepoints
+      await connection.beginTransaction();
+      await connection.query('INSERT INTO users (email) VALUES (?);', ['b']);
+      await connection.rollback();
+
+      await connection.commit();
+
+      await expect(
+        connection.transaction(async (tx) => {
+          await tx.query('INSERT INTO users (email) VALUES (?);', ['c']);
+          throw new Error('ops');
+        })
+      ).rejects.toThrow('ops');
+
+      await expect(
+        connection.query('SELECT email FROM users;')
+      ).resolves.toEqual([{ email: 'a' }]);
+
+      expect(connection.inTransaction).toBe(false);
+    });
+
+    it('should leave the connection usable after a nested interrupt', async () => {
+      // Only sqlite3 can interrupt queries
+      if (engine !== 'sqlite3') return;
+
+      const endless = `INSERT INTO users (email)
+        WITH RECURSIVE n (i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n)
+        SELECT 'user' || i FROM n;`;
+
+      // SQLite rolls back the whole transaction, savepoints included
+      await expect(
+        connection.transaction((tx) =>
+          tx.transaction((nested) => nested.query(endless, [], { timeout: 50 }))
+        )
+      ).rejects.toThrow(QueryTimeoutError);
+
+      expect(connection.inTransaction).toBe(false);
+
+      await expect(
+        connection.transaction((tx) =>
+          tx.query("INSERT INTO users (email) VALUES ('a');")
+        )
+      ).resolves.toBe(1);
+
+      await expect(
+        connection.query('SELECT COUNT(*) AS count FROM users;')
+      ).resolves.toEqual([{ count: 1 }]);
+    });
+
+    it('should run prepared statements and streams', async () => {
+      const insert = await connection.prepare(
+        'INSERT INTO users (email, age) VALUES (?, ?);'
+      );
+
+      await expect(insert.run(['a', 1])).resolves.toEqual({
+        changes: 1,
+        lastID: 1,
+      });
+      await insert.run(['b', 2]);
+      await insert.finalize();
+
+      const select = await connection.prepare(
+        'SELECT email FROM users WHERE age >= ? ORDER BY id;'
+      );
+
+      await expect(select.all([1])).resolves.toHaveLength(2);
+      const row = await select.get([2]);
+
+      expect(row).toEqual({ email: 'b' });
+      expect(isPlain(row)).toBe(true);
+      await select.finalize();
+
+      const rows = [];
+
+      for await (const row of connection.stream(
+        'SELECT email FROM users ORDER BY id;'
+      )) {
+        rows.push(row);
+
+        // Other queries can run while the stream is open
+        await connection.query('UPDATE users SET age = age + 1;');
+      }
+
+      expect(rows).toEqual([{ email: 'a' }, { email: 'b' }]);
+      expect(rows.every(isPlain)).toBe(true);
+    });
+
+    it('should run batches', async () => {
+      await expect(
+        connection.batch(
+          'INSERT INTO users (email) VALUES (?);',
+          [['a'], ['b'], ['c']],
+          { chunkSize: 2 }
+        )
+      ).resolves.toEqual({ count: 3, changes: 3, lastID: 3, chunks: 2 });
+
+      await expect(
+        connection.batch('INSERT INTO users (email) VALUES (?);', [
+          ['d'],
+          ['a'],
+        ])
+      ).rejects.toThrow(QueryError);
+
+      await expect(
+        connection.query('SELECT COUNT(*) AS count FROM users;')
+      ).resolves.toEqual([{ count: 3 }]);
+
+      // The executions queued after the failing one are rolled back too
+      const rows = Array.from({ length: 1000 }, (_, index) => [
+        index === 2 ? 'a' : `user${index}`,
+      ]);
+
+      await expect(
+        connection.batch('INSERT INTO users (email) VALUES (?);', rows)
+      ).rejects.toMatchObject({ constraint: 'unique', values: ['a'] });
+
+      await expect(
+        connection.query('SELECT COUNT(*) AS count FROM users;')
+      ).resolves.toEqual([{ count: 3 }]);
+    });
+
+    it('should reject with CreateConnectionError', async () => {
+      const missing = file(`${engine.replace(':', '-')}-missing`);
+
+      await expect(
+        new SQLite({ path: missing, mode: 'readwrite', engine }).create()
+      ).rejects.toThrow(CreateConnectionError);
+
+      await expect(
+        new SQLite({ path: missing, mode: 'readwrite', engine }).create()
+      ).rejects.toMatchObject({ code: 'SQLITE_CANTOPEN' });
+    });
+
+    it('should back up the database', async () => {
+      const path = file(`${engine.replace(':', '-')}-backup`);
+
+      const inserted = connection.transaction((tx) =>
+        tx.query('INSERT INTO users (email) VALUES (?);', ['a'])
+      );
+
+      try {
+        // The backup waits for the transaction, instead of failing with SQLITE_BUSY
+        await Promise.all([inserted, connection.backup(path)]);
+      } catch (error) {
+        // Older Node.js versions have no backup API
+        if (/cannot back up/.test(error.message)) return;
+        throw error;
+      }
+
+      const copy = await new SQLite({ path, engine }).create();
+
+      await expect(copy.query('SELECT email FROM users;')).resolves.toEqual([
+        { email: 'a' },
+      ]);
+
+      await copy.close();
+      unlinkSync(path);
+    });
+
+    it('should restore the database', async () => {
+      const path = file(`${engine.replace(':', '-')}-restored`);
+      const copy = file(`${engine.replace(':', '-')}-restore-copy`);
+      const db = await new SQLite({ path, engine }).create();
+
+      await db.exec(
+        "CREATE TABLE users (email TEXT); INSERT INTO users VALUES ('a');"
+      );
+
+      try {
+        await db.backup(copy);
+      } catch (error) {
+        // Older Node.js versions have no backup API
+        if (/cannot back up/.test(error.message)) return db.close();
+        throw error;
+      }
+
+      await db.query("INSERT INTO users VALUES ('b');");
+      await db.restore(copy);
+
+      await expect(db.query('SELECT email FROM users;')).resolves.toEqual([
+        { email: 'a' },
+      ]);
+
+      // Synchronous engines restore through the main database file
+      if (engine === 'sqlite3') {
+        await expect(connection.restore(copy)).resolves.toBeUndefined();
+      } else {
+        await expect(connection.restore(copy)).rejects.toThrow(BackupError);
+      }
+
+      await db.close();
+      unlinkSync(path);
+      unlinkSync(copy);
+    });
+
+    it('should step one row at a time', async () => {
+      if (engine === 'sqlite3') return;
+
+      let calls = 0;
+
+      const counter = await new SQLite({
+        path: ':memory:',
+        engine,
+        functions: { tick: (value: number) => (calls++, value) },
+      }).create();
+
+      const select = await counter.prepare(
+        `WITH RECURSIVE n (value) AS (
+          SELECT 1 UNION ALL SELECT value + 1 FROM n WHERE value < 3
+        ) SELECT tick(value) AS value FROM n;`
+      );
+
+      const rows = select.iterate();
+
+      await expect(rows.next()).resolves.toEqual({
+        value: { value: 1 },
+        done: false,
+      });
+      expect(calls).toBe(1);
+
+      // Other queries can run before the statement is done
+      await expect(counter.query('SELECT 1 AS one;')).resolves.toEqual([
+        { one: 1 },
+      ]);
+
+      const left = [];
+      for await (const row of rows) left.push(row);
+
+      expect(left).toEqual([{ value: 2 }, { value: 3 }]);
+      expect(calls).toBe(3);
+
+      await select.finalize();
+      await counter.close();
+    });
+
+    it('should only interrupt queries with sqlite3', async () => {
+      const options = { timeout: 1000, signal: new AbortController().signal };
+
+      if (engine === 'sqlite3') {
+        await expect(
+          connection.query('SELECT 1 AS one;', [], options)
+        ).resolves.toEqual([{ one: 1 }]);
+        return;
+      }
+
+      await expect(
+        connection.query('SELECT 1 AS one;', [], options)
+      ).rejects.toThrow(QueryError);
+    });
+
+    it('should read the schema', async () => {
+      await connection.exec(
+        `CREATE TABLE posts (
+          id INTEGER PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+          title TEXT DEFAULT 'draft'
+        );
+        CREATE INDEX posts_title ON posts (title) WHERE title IS NOT NULL;
+        CREATE VIEW titles AS SELECT title FROM posts;
+        CREATE TRIGGER posts_touch AFTER UPDATE ON posts BEGIN SELECT 1; END;`
+      );
+
+      const schema = connection.schema();
+
+      await expect(schema.tables()).resolves.toEqual([
+        { name: 'posts', type: 'table', sql: expect.any(String) },
+        { name: 'users', type: 'table', sql: expect.any(String) },
+      ]);
+
+      await expect(schema.views()).resolves.toEqual([
+        { name: 'titles', type: 'view', sql: expect.any(String) },
+      ]);
+
+      await expect(schema.columns('posts')).resolves.toEqual([
+        {
+          name: 'id',
+          type: 'INTEGER',
+          nullable: true,
+          default: null,
+          primaryKey: 1,
+        },
+        {
+          name: 'user_id',
+          type: 'INTEGER',
+          nullable: false,
+          default: null,
+          primaryKey: 0,
+        },
+        {
+          name: 'title',
+          type: 'TEXT',
+          nullable: true,
+          default: "'draft'",
+          primaryKey: 0,
+        },
+      ]);
+
+      await expect(schema.indexes('posts')).resolves.toEqual([
+        {
+          name: 'posts_title',
+          unique: false,
+          origin: 'create',
+          partial: true,
+          columns: ['title'],
+        },
+      ]);
+
+      await expect(schema.indexes('users')).resolves.toEqual([
+        {
+          name: 'sqlite_autoindex_users_1',
+          unique: true,
+          origin: 'unique',
+          partial: false,
+          columns: ['email'],
+        },
+      ]);
+
+      await expect(schema.foreignKeys('posts')).resolves.toEqual([
+        {
+          id: 0,
+          table: 'users',
+          from: ['user_id'],
+          to: ['id'],
+          onUpdate: 'NO ACTION',
+          onDelete: 'CASCADE',
+        },
+      ]);
+
+      await expect(schema.triggers('posts')).resolves.toEqual([
+        { name: 'posts_touch', table: 'posts', sql: expect.any(String) },
+      ]);
+
+      await expect(schema.triggers('users')).resolves.toEqual([]);
+
+      // Attached databases
+      await connection.attach(':memory:', 'archive');
+      await connection.exec('CREATE TABLE archive.logs (line TEXT);');
+
+      await expect(connection.schema('archive').tables()).resolves.toEqual([
+        { name: 'logs', type: 'table', sql: expect.any(String) },
+      ]);
+
+      await expect(
+        connection.schema('archive').columns('logs')
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should attach databases in read-only mode with URIs', async () => {
+      if (engine === 'better-sqlite3') {
+        expect(
+          () => new SQLite({ path: ':memory:', engine, uri: true })
+        ).toThrow(CreateConnectionError);
+        return;
+      }
+
+      const path = file(`${engine.replace(':', '-')}-attached`);
+      const archive = await new SQLite({ path, engine }).create();
+      await archive.exec('CREATE TABLE logs (line TEXT);');
+      await archive.close();
+
+      const reader = await new SQLite({
+        path: ':memory:',
+        engine,
+        uri: true,
+      }).create();
+
+      await reader.attach(path, 'archive', { readonly: true });
+      await expect(
+        reader.query('INSERT INTO archive.logs VALUES (?);', ['a'])
+      ).rejects.toMatchObject({ code: 'SQLITE_READONLY' });
+
+      await reader.close();
+      unlinkSync(path);
+    });
+
+    it('should decode rows', async () => {
+      const options = {
+        path: ':memory:',
+        engine,
+        types: { boolean: 'boolean', DATETIME: 'date', JSON: 'json' } as const,
+        safeIntegers: true,
+      };
+
+      if (engine === 'sqlite3') {
+        expect(() => new SQLite(options)).toThrow(CreateConnectionError);
+        return;
+      }
+
+      const typed = await new SQLite(options).create();
+
+      await typed.exec(
+        `CREATE TABLE posts (
+          id INTEGER PRIMARY KEY,
+          published BOOLEAN,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          meta JSON,
+          views INTEGER
+        );
+        INSERT INTO posts (published, created_at, meta, views)
+        VALUES (1, '2024-01-01 10:00:00', '{"tags":["a"]}', 9007199254740993),
+        (0, NULL, NULL, 1);`
+      );
+
+      const expected = [
+        {
+          id: 1,
+          published: true,
+          created_at: new Date('2024-01-01T10:00:00.000Z'),
+          meta: { tags: ['a'] },
+          views: BigInt('9007199254740993'),
+        },
+        { id: 2, published: false, created_at: null, meta: null, views: 1 },
+      ];
+
+      await expect(
+        typed.query('SELECT * FROM posts ORDER BY id;')
+      ).resolves.toEqual(expected);
+
+      const rows = [];
+      for await (const row of typed.stream('SELECT * FROM posts ORDER BY id;'))
+        rows.push(row);
+
+      expect(rows).toEqual(expected);
+
+      // Expressions have no declared type, query casts apply to them
+      await expect(
+        typed.query('SELECT 1 AS flag, published FROM posts;', undefined, {
+          casts: { flag: 'boolean' },
+        })
+      ).resolves.toEqual([
+        { flag: true, published: true },
+        { flag: true, published: false },
+      ]);
+
+      await typed.close();
+    });
+
+    it('should run migrations', async () => {
+      const directory = migrations({
+        '001_create_posts.sql': `-- migrate:up
+          CREATE TABLE posts (
+            id INTEGER PRIMARY KEY,
+            user_id INTEGER REFERENCES users (id),
+            title TEXT
+          );
+          CREATE INDEX posts_title ON posts (title);
+          -- migrate:down
+          DROP TABLE posts;`,
+        '002_require_titles.js': `
+          const { rebuild } = require(${JSON.stringify(require.resolve('../src'))});
+
+          exports.up = (connection) =>
+            rebuild(connection, 'posts', 'id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users (id), title TEXT NOT NULL', {
+              columns: { id: 'id', user_id: 'user_id', title: "COALESCE(title, 'untitled')" },
+            });
+
+          exports.down = (connection) =>
+            rebuild(connection, 'posts', 'id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users (id), title TEXT');`,
+      });
+
+      const migrator = new SQLiteMigrator(connection, directory);
+
+      await connection.query('INSERT INTO users (email) VALUES (?);', ['a']);
+
+      await expect(migrator.up({ to: 1 })).resolves.toMatchObject([
+        { version: 1, name: '001_create_posts' },
+      ]);
+
+      await connection.query('INSERT INTO posts (user_id) VALUES (?);', [1]);
+
+      await expect(migrator.up()).resolves.toMatchObject([
+        { version: 2, name: '002_require_titles' },
+      ]);
+
+      // The table is rebuilt with its index, and the rows are kept
+      await expect(connection.query('SELECT * FROM posts;')).resolves.toEqual([
+        { id: 1, user_id: 1, title: 'untitled' },
+      ]);
+
+      await expect(connection.schema().indexes('posts')).resolves.toMatchObject(
+        [{ name: 'posts_title' }]
+      );
+
+      await expect(
+        connection.query('INSERT INTO posts (user_id) VALUES (?);', [1])
+      ).rejects.toMatchObject({ constraint: 'notNull' });
+
+      await expect(migrator.status()).resolves.toMatchObject([
+        { version: 1, state: 'applied', appliedAt: expect.any(String) },
+        { version: 2, state: 'applied', appliedAt: expect.any(String) },
+      ]);
+
+      // Foreign keys are enabled again once done
+      await expect(connection.query('PRAGMA foreign_keys;')).resolves.toEqual([
+        { foreign_keys: 1 },
+      ]);
+
+      await expect(migrator.down({ to: 0 })).resolves.toHaveLength(2);
+      await expect(connection.schema().tables()).resolves.toMatchObject([
+        { name: 'megaorm_migrations' },
+        { name: 'users' },
+      ]);
+
+      rmSync(directory, { recursive: true });
+    });
+
+    it('should refuse writes on query-only connections', async () => {
+      const reader = await new SQLite({
+        path: ':memory:',
+        engine,
+        queryOnly: true,
+      }).create();
+
+      await expect(
+        reader.query('CREATE TABLE logs (line TEXT);')
+      ).rejects.toThrow(ReadOnlyError);
+
+      await expect(
+        reader.exec('SELECT 1; CREATE TABLE logs (line TEXT);')
+      ).rejects.toThrow(ReadOnlyError);
+
+      // query_only cannot be turned off
+      await expect(reader.query('PRAGMA query_only = OFF;')).rejects.toThrow(
+        ReadOnlyError
+      );
+
+      await expect(reader.exec('PRAGMA query_only = OFF;')).rejects.toThrow(
+        ReadOnlyError
+      );
+
+      // Restores do not go through query_only, backups only read
+      const path = file(`${engine.replace(':', '-')}-query-only`);
+
+      await expect(reader.backup(path)).resolves.toBeUndefined();
+      await expect(reader.restore(path)).rejects.toThrow(ReadOnlyError);
+      await expect(
+        reader.transaction((tx) => tx.restore(path))
+      ).rejects.toThrow(ReadOnlyError);
+
+      const readonly = await new SQLite({
+        path,
+        engine,
+        mode: 'readonly',
+      }).create();
+
+      await expect(readonly.restore(path)).rejects.toThrow(ReadOnlyError);
+      await readonly.close();
+
+      unlinkSync(path);
+
+      await expect(reader.query('PRAGMA query_only;')).resolves.toEqual([
+        { query_only: 1 },
+      ]);
+
+      await expect(reader.query('SELECT 1 AS one;')).resolves.toEqual([
+        { one: 1 },
+      ]);
+
+      await reader.close();
+    });
+
+    it('should install functions', async () => {
+      const options = {
+        path: ':memory:',
+        engine,
+        functions: {
+          slugify: (title: string) => title.toLowerCase().replace(/\W+/g, '-'),
+          fail: () => {
+            throw new Error('ops');
+          },
+        },
+        aggregates: {
+          accumulate: {
+            start: 0,
+            step: (sum: number, value: number) => sum + value,
+          },
+        },
+        regexp: true,
+      };
+
+      if (engine === 'sqlite3') {
+        expect(() => new SQLite(options)).toThrow(CreateConnectionError);
+        return;
+      }
+
+      const fn = await new SQLite(options).create();
+
+      await expect(
+        fn.query(
+          `SELECT slugify('Hello World') AS slug,
+            'abc' REGEXP '^a' AS matches,
+            (SELECT accumulate(value) FROM (SELECT 1 AS value UNION ALL SELECT 2)) AS sum;`
+        )
+      ).resolves.toEqual([{ slug: 'hello-world', matches: 1, sum: 3 }]);
+
+      await expect(fn.query('SELECT fail();')).rejects.toThrow(QueryError);
+      await expect(fn.query("SELECT 'a' REGEXP '(';")).rejects.toThrow(
+        QueryError
+      );
+      await fn.close();
+    });
+  });
+});
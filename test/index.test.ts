@@ -11,12 +11,50 @@ import { CommitTransactionError } from '@megaorm/errors';
 import { RollbackTransactionError } from '@megaorm/errors';
 import { isCon, isSQLite } from '@megaorm/utils';
 import { isSymbol } from '@megaorm/test';
+import { BackupError, QueryAbortedError, QueryTimeoutError } from '../src';
+import { ReadOnlyError } from '../src';
+import { REGEXP } from '../src';
+import { Readable } from 'stream';
+
+// sqlite3 statement mock, stepping through the given rows
+const statement = (rows: Array<any> = [{ id: 1 }, { id: 2 }]) => {
+  let index = 0;
+
+  return {
+    run: jest.fn(function (...args) {
+      args.pop().call({ changes: 1, lastID: 7 }, null);
+    }),
+    all: jest.fn((...args) => args.pop()(null, rows)),
+    get: jest.fn((...args) => args.pop()(null, rows[index++])),
+    bind: jest.fn((...args) => {
+      index = 0;
+      args.pop()(null);
+    }),
+    reset: jest.fn((callback) => {
+      index = 0;
+      callback(null);
+    }),
+    finalize: jest.fn((callback) => callback && callback()),
+  };
+};
 
 const mock = () => {
   return {
     db: (...reject: Array<string>) => {
       const db = {
+        statements: [] as Array<ReturnType<typeof statement>>,
+        prepare: jest.fn((sql, callback) => {
+          const stmt = statement();
+          const error = reject.includes('prepare') ? new Error('ops') : null;
+          db.statements.push(stmt);
+          setTimeout(() => callback(error), 1);
+          return stmt;
+        }),
         close: jest.fn((callback) => callback(null)),
+        configure: jest.fn(),
+        exec: jest.fn((sql, callback) => callback(null)),
+        interrupt: jest.fn(),
+        backup: jest.fn(),
         run: jest.fn((sql, values, callback) => {
           // console.log(typeof callback);
           callback(null);
@@ -35,6 +73,10 @@ const mock = () => {
         db.all = jest.fn((sql, values, callback) => callback(new Error('ops')));
       }
 
+      if (reject.includes('exec')) {
+        db.exec = jest.fn((sql, callback) => callback(new Error('ops')));
+      }
+
       if (reject.includes('close')) {
         db.close = jest.fn((callback) => callback(new Error('ops')));
       }
@@ -135,6 +177,128 @@ describe('SQLite', () => {
 
       expect(sqlite.Database).toHaveBeenCalledTimes(0);
     });
+
+    it('should open the database with the given mode', async () => {
+      sqlite.Database = jest.fn((path, mode, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return mock().db();
+      }) as any;
+
+      await new SQLite({ path: ':memory', mode: 'readonly' }).create();
+      expect(sqlite.Database).toHaveBeenLastCalledWith(
+        ':memory',
+        sqlite.OPEN_READONLY,
+        expect.any(Function)
+      );
+
+      await new SQLite({ path: ':memory', mode: 'readwrite' }).create();
+      expect(sqlite.Database).toHaveBeenLastCalledWith(
+        ':memory',
+        sqlite.OPEN_READWRITE,
+        expect.any(Function)
+      );
+
+      await new SQLite({ path: ':memory', mode: 'create' }).create();
+      expect(sqlite.Database).toHaveBeenLastCalledWith(
+        ':memory',
+        sqlite.OPEN_READWRITE | sqlite.OPEN_CREATE,
+        expect.any(Function)
+      );
+    });
+
+    it('should configure the busy timeout', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      await new SQLite({ path: ':memory', busyTimeout: 3000 }).create();
+
+      expect(db.configure).toHaveBeenCalledTimes(1);
+      expect(db.configure).toHaveBeenCalledWith('busyTimeout', 3000);
+    });
+
+    it('should apply pragmas in order', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      await new SQLite({
+        path: ':memory',
+        foreignKeys: false,
+        pragmas: {
+          journal_mode: 'WAL',
+          cache_size: -2000,
+          recursive_triggers: true,
+        },
+      }).create();
+
+      expect(db.configure).not.toHaveBeenCalled();
+      expect(db.run.mock.calls.map((call) => call[0])).toEqual([
+        'PRAGMA foreign_keys = OFF',
+        "PRAGMA journal_mode = 'WAL'",
+        'PRAGMA cache_size = -2000',
+        'PRAGMA recursive_triggers = ON',
+      ]);
+    });
+
+    it('should reject with the pragma that failed', async () => {
+      const db = mock().db();
+      db.run = jest.fn((sql, values, callback) => {
+        if (sql.includes('journal_mode')) return callback(new Error('ops'));
+        callback(null);
+      });
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const driver = new SQLite({
+        path: ':memory',
+        pragmas: { journal_mode: 'WAL', synchronous: 'NORMAL' },
+      });
+
+      await expect(driver.create()).rejects.toThrow(CreateConnectionError);
+      await expect(driver.create()).rejects.toThrow(
+        'Failed to apply PRAGMA journal_mode: ops'
+      );
+
+      // synchronous is never applied
+      expect(db.run).toHaveBeenCalledTimes(4);
+      expect(db.close).toHaveBeenCalledTimes(2);
+    });
+
+    it('options must be valid', () => {
+      const create = (options: any) => () => new SQLite(options);
+
+      expect(create({ path: ':memory' })).not.toThrow();
+      expect(create(null)).toThrow('Invalid SQLite options');
+      expect(create({})).toThrow('Invalid SQLite path');
+      expect(create({ path: ':memory', mode: 'write' })).toThrow(
+        'Invalid SQLite mode'
+      );
+      expect(create({ path: ':memory', busyTimeout: -1 })).toThrow(
+        'Invalid SQLite busy timeout'
+      );
+      expect(create({ path: ':memory', foreignKeys: 1 })).toThrow(
+        'Invalid SQLite foreign keys option'
+      );
+      expect(create({ path: ':memory', pragmas: [] })).toThrow(
+        'Invalid SQLite pragmas'
+      );
+      expect(create({ path: ':memory', pragmas: { 'a; DROP': 1 } })).toThrow(
+        'Invalid SQLite pragma'
+      );
+      expect(create({ path: ':memory', pragmas: { a: {} } })).toThrow(
+        'Invalid SQLite pragma value'
+      );
+    });
   });
 
   describe('MegaConnection.props', () => {
@@ -258,7 +422,11 @@ describe('SQLite', () => {
       await expect(connection.query('sql', [1, 2])).resolves.not.toThrow();
       await expect(connection.query('sql', ['simon'])).resolves.not.toThrow();
 
-      await expect(connection.query('sql', {} as any)).rejects.toThrow(
+      await expect(connection.query('sql', true as any)).rejects.toThrow(
+        'Invalid query values'
+      );
+
+      await expect(connection.query('sql', new Map() as any)).rejects.toThrow(
         'Invalid query values'
       );
 
@@ -271,6 +439,169 @@ describe('SQLite', () => {
       );
     });
 
+    it('should bind null, boolean, bigint, blob and date values', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const date = new Date('2024-01-01T00:00:00.000Z');
+      const bytes = new Uint8Array([1, 2, 3]);
+
+      await connection.query('SELECT', [
+        null,
+        true,
+        false,
+        BigInt(10),
+        BigInt('9007199254740993'),
+        Buffer.from('simon'),
+        bytes,
+        date,
+      ]);
+
+      expect(db.all).toHaveBeenCalledWith(
+        'SELECT',
+        [
+          null,
+          1,
+          0,
+          10,
+          '9007199254740993',
+          Buffer.from('simon'),
+          Buffer.from(bytes),
+          '2024-01-01T00:00:00.000Z',
+        ],
+        expect.any(Function)
+      );
+    });
+
+    it('should store dates using the configured format', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const date = new Date('2024-01-01T00:00:00.500Z');
+
+      const unix = await new SQLite({
+        path: ':memory',
+        dateFormat: 'unix',
+      }).create();
+
+      await unix.query('SELECT', [date]);
+      expect(db.all).toHaveBeenLastCalledWith(
+        'SELECT',
+        [1704067200],
+        expect.any(Function)
+      );
+
+      const millis = await new SQLite({
+        path: ':memory',
+        dateFormat: 'millis',
+      }).create();
+
+      await millis.query('SELECT', [date]);
+      expect(db.all).toHaveBeenLastCalledWith(
+        'SELECT',
+        [1704067200500],
+        expect.any(Function)
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', dateFormat: 'x' as any })
+      ).toThrow('Invalid SQLite date format');
+    });
+
+    it('should reject unsupported values without executing', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.query('SELECT', [1, new Map() as any])
+      ).rejects.toThrow('Invalid query value at index 1: unsupported type Map');
+
+      await expect(
+        connection.query('SELECT', [undefined as any])
+      ).rejects.toThrow(
+        'Invalid query value at index 0: unsupported type undefined'
+      );
+
+      await expect(
+        connection.query('SELECT', [new Date('invalid')])
+      ).rejects.toThrow('Invalid query value at index 0: Invalid Date');
+
+      expect(db.all).not.toHaveBeenCalled();
+    });
+
+    it('should bind named values to named placeholders', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const sql =
+        'SELECT * FROM users WHERE id = :id AND name = $name -- :ignored\n' +
+        "AND email = '@ignored' AND age > @age AND id != :id";
+
+      await connection.query(sql, { id: 1, $name: 'simon', age: true });
+
+      expect(db.all).toHaveBeenCalledWith(
+        sql,
+        { ':id': 1, $name: 'simon', '@age': 1 },
+        expect.any(Function)
+      );
+    });
+
+    it('should reject mismatched named values', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const sql = 'SELECT * FROM users WHERE id = :id AND name = :name';
+
+      await expect(connection.query(sql, { id: 1 })).rejects.toThrow(
+        'Missing query value for :name'
+      );
+
+      await expect(
+        connection.query(sql, { id: 1, name: 'simon', age: 20 })
+      ).rejects.toThrow('Unknown query value: age');
+
+      await expect(
+        connection.query(sql, { id: 1, name: {} as any })
+      ).rejects.toThrow('Invalid query value for :name');
+
+      await expect(
+        connection.query('SELECT * FROM users WHERE id = ?', { id: 1 })
+      ).rejects.toThrow(
+        'Named query values cannot be bound to positional placeholders'
+      );
+
+      await expect(connection.query(sql, { id: 1 })).rejects.toThrow(
+        QueryError
+      );
+
+      expect(db.all).not.toHaveBeenCalled();
+    });
+
     it('should resolve with Rows for SELECT queries', async () => {
       const db = mock().db(); // db.all rejects
 
@@ -289,6 +620,64 @@ describe('SQLite', () => {
       expect(db.all).toHaveBeenCalledWith('SELECT', [], expect.any(Function));
     });
 
+    it('should resolve with Rows for all row producing statements', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const queries = [
+        'select * FROM users',
+        '-- Find users\n/* all of them */ SELECT * FROM users',
+        'WITH RECURSIVE c(x) AS (SELECT 1 UNION SELECT x + 1 FROM c) SELECT x FROM c',
+        'PRAGMA table_info(users)',
+        'EXPLAIN QUERY PLAN SELECT * FROM users',
+        'VALUES (1), (2)',
+        'INSERT INTO users (name) VALUES (?) RETURNING id',
+        'UPDATE users SET name = ? RETURNING *',
+        'WITH ids AS (SELECT 1) DELETE FROM users RETURNING id',
+      ];
+
+      for (const sql of queries) {
+        await expect(connection.query(sql, ['simon'])).resolves.toEqual([
+          { name: 'simon' },
+        ]);
+      }
+
+      expect(db.all).toHaveBeenCalledTimes(queries.length);
+      expect(db.run).toHaveBeenCalledTimes(1); // foreign keys
+    });
+
+    it('should not resolve with Rows for other statements', async () => {
+      const db = mock().db();
+      db.run = jest.fn((sql, values, callback) => {
+        callback.call({ changes: 2, lastID: 1 }, null); // Simulate a bulk write
+      });
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const queries = [
+        "INSERT INTO users (name) VALUES ('RETURNING')",
+        'WITH ids AS (SELECT 1) INSERT INTO users SELECT * FROM ids',
+        'UPDATE users SET name = ? -- RETURNING *',
+        'CREATE TABLE users (id INTEGER)',
+      ];
+
+      for (const sql of queries) {
+        await expect(connection.query(sql)).resolves.toBeUndefined();
+      }
+
+      expect(db.all).not.toHaveBeenCalled();
+      expect(db.run).toHaveBeenCalledTimes(queries.length + 1);
+    });
+
     it('should resolve with id for single INSERT queries', async () => {
       const db = mock().db();
       db.run = jest.fn(function (sql, values, callback) {
@@ -333,6 +722,73 @@ describe('SQLite', () => {
       expect(db.run).toHaveBeenCalledWith('INSERT', [], expect.any(Function));
     });
 
+    it('should resolve with changes and lastID in detailed mode', async () => {
+      const db = mock().db();
+      db.run = jest.fn((sql, values, callback) => {
+        callback.call({ changes: 3, lastID: 7 }, null); // Simulate a bulk write
+      });
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes after db is resolved
+        return db;
+      }) as any;
+
+      const driver = new SQLite({ path: ':memory', resultMode: 'detailed' });
+      const connection = await driver.create();
+
+      await expect(connection.query('INSERT', [])).resolves.toEqual({
+        changes: 3,
+        lastID: 7,
+      });
+
+      await expect(connection.query('UPDATE', [])).resolves.toEqual({
+        changes: 3,
+        lastID: 7,
+      });
+
+      // Per query result mode
+      await expect(
+        connection.query('DELETE', [], { resultMode: 'megaorm' })
+      ).resolves.toBeUndefined();
+
+      // Rows are not affected
+      await expect(connection.query('SELECT', [])).resolves.toEqual([
+        { name: 'simon' },
+      ]);
+    });
+
+    it('should resolve with changes and lastID per query', async () => {
+      const db = mock().db();
+      db.run = jest.fn((sql, values, callback) => {
+        callback.call({ changes: 0, lastID: 0 }, null); // Simulate no match
+      });
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes after db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.query('UPDATE users SET name = ?', ['simon'], {
+          resultMode: 'detailed',
+        })
+      ).resolves.toEqual({ changes: 0, lastID: 0 });
+
+      await expect(
+        connection.query('UPDATE', [], { resultMode: 'full' as any })
+      ).rejects.toThrow('Invalid query result mode');
+
+      await expect(connection.query('UPDATE', [], [] as any)).rejects.toThrow(
+        'Invalid query options'
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', resultMode: 'full' as any })
+      ).toThrow('Invalid SQLite result mode');
+    });
+
     it('should resolve with undefined for other queries', async () => {
       const db = mock().db(); // db.all rejects
 
@@ -354,75 +810,251 @@ describe('SQLite', () => {
     });
   });
 
-  describe('MegaConnection.close', () => {
-    it('should resolve with undefined', async () => {
+  describe('SQLite errors', () => {
+    const constraint = (message: string) => {
+      const error: any = new Error(`SQLITE_CONSTRAINT: ${message}`);
+      error.code = 'SQLITE_CONSTRAINT';
+      error.errno = 19;
+      return error;
+    };
+
+    it('should keep the sqlite details on QueryError', async () => {
       const db = mock().db();
+      const error = constraint('UNIQUE constraint failed: users.email');
+      db.all = jest.fn((sql, values, callback) => callback(error));
 
       sqlite.Database = jest.fn((path, callback) => {
-        setTimeout(callback, 1); // Executes afer db is resolved
+        setTimeout(callback, 1);
         return db;
       }) as any;
 
       const connection = await new SQLite(':memory').create();
-
-      await expect(connection.close()).resolves.toBeUndefined();
-
-      expect(db.close).toHaveBeenCalledTimes(1);
-      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+      const sql = 'INSERT INTO users (email) VALUES (?) RETURNING id';
+      const result = connection.query(sql, ['simon@example.com']);
+
+      await expect(result).rejects.toThrow(QueryError);
+      await expect(result).rejects.toMatchObject({
+        message: 'SQLITE_CONSTRAINT: UNIQUE constraint failed: users.email',
+        code: 'SQLITE_CONSTRAINT',
+        errno: 19,
+        constraint: 'unique',
+        sql,
+        values: ['simon@example.com'],
+        cause: error,
+      });
     });
 
-    it('should reject with CloseConnectionError', async () => {
-      const db = mock().db('close'); // db.close rejects
+    it('should detect the failed constraint kind', async () => {
+      const db = mock().db();
 
       sqlite.Database = jest.fn((path, callback) => {
-        setTimeout(callback, 1); // Executes afer db is resolved
+        setTimeout(callback, 1);
         return db;
       }) as any;
 
       const connection = await new SQLite(':memory').create();
+      // The messages of sqlite3, which reports failed primary keys as unique
+      const kinds = {
+        'UNIQUE constraint failed: users.email': 'unique',
+        'UNIQUE constraint failed: users.id': 'unique',
+        'NOT NULL constraint failed: users.unique_code': 'notNull',
+        'CHECK constraint failed: age > 0': 'check',
+        'FOREIGN KEY constraint failed': 'foreignKey',
+      };
 
-      await expect(connection.close()).rejects.toThrow(CloseConnectionError);
+      for (const [message, kind] of Object.entries(kinds)) {
+        db.run = jest.fn((sql, values, callback) =>
+          callback(constraint(message))
+        );
 
-      expect(db.close).toHaveBeenCalledTimes(1);
-      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+        await expect(connection.query('UPDATE')).rejects.toMatchObject({
+          constraint: kind,
+        });
+      }
     });
 
-    it('should reject with ops', async () => {
-      const db = mock().db('close'); // db.close rejects
+    it('should redact the values when configured', async () => {
+      const db = mock().db();
 
       sqlite.Database = jest.fn((path, callback) => {
-        setTimeout(callback, 1); // Executes afer db is resolved
+        setTimeout(callback, 1);
         return db;
       }) as any;
 
-      const connection = await new SQLite(':memory').create();
-
-      await expect(connection.close()).rejects.toThrow('ops');
+      const driver = new SQLite({ path: ':memory', redactValues: true });
+      const redacted = await driver.create();
 
-      expect(db.close).toHaveBeenCalledTimes(1);
-      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+      db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
+      await expect(
+        redacted.query('UPDATE users SET password = :password', {
+          password: 'secret',
+        })
+      ).rejects.toMatchObject({ values: { password: '[REDACTED]' } });
+
+      await expect(
+        redacted.query('UPDATE users SET password = ?', ['secret'])
+      ).rejects.toMatchObject({ values: ['[REDACTED]'] });
+
+      expect(
+        () => new SQLite({ path: ':memory', redactValues: 1 as any })
+      ).toThrow('Invalid SQLite redact values option');
     });
 
-    it('cannot execute any farther operations', async () => {
-      const db = mock().db(); // db.close resolves
+    it('should keep the sqlite details on transaction errors', async () => {
+      const db = mock().db();
 
       sqlite.Database = jest.fn((path, callback) => {
-        setTimeout(callback, 1); // Executes afer db is resolved
+        setTimeout(callback, 1);
         return db;
       }) as any;
 
       const connection = await new SQLite(':memory').create();
+      const error: any = new Error('SQLITE_BUSY: database is locked');
+      error.code = 'SQLITE_BUSY';
+      error.errno = 5;
+
+      db.run = jest.fn((sql, values, callback) => callback(error));
+
+      const begin = connection.beginTransaction({ mode: 'immediate' });
+      await expect(begin).rejects.toThrow(BeginTransactionError);
+      await expect(begin).rejects.toMatchObject({
+        code: 'SQLITE_BUSY',
+        errno: 5,
+        sql: 'BEGIN IMMEDIATE TRANSACTION;',
+        cause: error,
+      });
 
-      await expect(connection.close()).resolves.toBeUndefined(); // closed
+      db.run = jest.fn((sql, values, callback) => callback(null));
+      await connection.beginTransaction();
 
-      // all operations rejects
-      await expect(connection.close()).rejects.toThrow(CloseConnectionError);
-      await expect(connection.close()).rejects.toThrow(
-        'Cannot perform further operations once the connection is closed'
-      );
+      db.run = jest.fn((sql, values, callback) => callback(error));
+      await expect(connection.commit()).rejects.toMatchObject({
+        code: 'SQLITE_BUSY',
+        cause: error,
+      });
 
-      await expect(connection.query('SELECT 1;')).rejects.toThrow(QueryError);
-      await expect(connection.query('SELECT 1;')).rejects.toThrow(
+      await expect(connection.rollback()).rejects.toMatchObject({
+        code: 'SQLITE_BUSY',
+        cause: error,
+      });
+    });
+
+    it('should keep the sqlite details on connection errors', async () => {
+      const error: any = new Error('SQLITE_CANTOPEN: unable to open database');
+      error.code = 'SQLITE_CANTOPEN';
+      error.errno = 14;
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(() => callback(error), 1);
+        return mock().db();
+      }) as any;
+
+      await expect(new SQLite(':memory').create()).rejects.toMatchObject({
+        code: 'SQLITE_CANTOPEN',
+        errno: 14,
+        cause: error,
+      });
+
+      const db = mock().db();
+      db.close = jest.fn((callback) => callback(error));
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const close = connection.close();
+
+      await expect(close).rejects.toThrow(CloseConnectionError);
+      await expect(close).rejects.toMatchObject({
+        code: 'SQLITE_CANTOPEN',
+        cause: error,
+      });
+    });
+
+    it('should keep the failed pragma on CreateConnectionError', async () => {
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return mock().db('run');
+      }) as any;
+
+      await expect(new SQLite(':memory').create()).rejects.toMatchObject({
+        sql: 'PRAGMA foreign_keys = ON',
+        message: 'Failed to apply PRAGMA foreign_keys: ops',
+      });
+    });
+  });
+
+  describe('MegaConnection.close', () => {
+    it('should resolve with undefined', async () => {
+      const db = mock().db();
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.close()).resolves.toBeUndefined();
+
+      expect(db.close).toHaveBeenCalledTimes(1);
+      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('should reject with CloseConnectionError', async () => {
+      const db = mock().db('close'); // db.close rejects
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.close()).rejects.toThrow(CloseConnectionError);
+
+      expect(db.close).toHaveBeenCalledTimes(1);
+      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('should reject with ops', async () => {
+      const db = mock().db('close'); // db.close rejects
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.close()).rejects.toThrow('ops');
+
+      expect(db.close).toHaveBeenCalledTimes(1);
+      expect(db.close).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('cannot execute any farther operations', async () => {
+      const db = mock().db(); // db.close resolves
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executes afer db is resolved
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.close()).resolves.toBeUndefined(); // closed
+
+      // all operations rejects
+      await expect(connection.close()).rejects.toThrow(CloseConnectionError);
+      await expect(connection.close()).rejects.toThrow(
+        'Cannot perform further operations once the connection is closed'
+      );
+
+      await expect(connection.query('SELECT 1;')).rejects.toThrow(QueryError);
+      await expect(connection.query('SELECT 1;')).rejects.toThrow(
         'Cannot perform further operations once the connection is closed'
       );
 
@@ -445,6 +1077,10 @@ describe('SQLite', () => {
       await expect(connection.rollback()).rejects.toThrow(
         'Cannot perform further operations once the connection is closed'
       );
+
+      await expect(connection.transaction(() => 1)).rejects.toThrow(
+        BeginTransactionError
+      );
     });
   });
 
@@ -513,49 +1149,72 @@ describe('SQLite', () => {
     });
   });
 
-  describe('MegaConnection.commit', () => {
-    it('should resolve with undefined', async () => {
+  describe('MegaConnection.beginTransaction modes', () => {
+    it('should begin transactions with the given mode', async () => {
       const db = mock().db();
       sqlite.Database = jest.fn((path, callback) => {
-        setTimeout(callback, 1); // Executed after db instance is created
+        setTimeout(callback, 1);
         return db;
       }) as any;
 
       const connection = await new SQLite(':memory').create();
 
-      await expect(connection.commit()).resolves.toBeUndefined();
+      await connection.beginTransaction({ mode: 'immediate' });
+      expect(db.run).toHaveBeenLastCalledWith(
+        'BEGIN IMMEDIATE TRANSACTION;',
+        undefined,
+        expect.any(Function)
+      );
 
-      expect(db.run).toHaveBeenCalledTimes(2);
+      // Savepoints have no mode
+      await connection.beginTransaction({ mode: 'exclusive' });
       expect(db.run).toHaveBeenLastCalledWith(
-        'COMMIT;',
+        'SAVEPOINT megaorm_1;',
+        undefined,
+        expect.any(Function)
+      );
+
+      await connection.rollback();
+      await connection.rollback();
+
+      await connection.beginTransaction({ mode: 'exclusive' });
+      expect(db.run).toHaveBeenLastCalledWith(
+        'BEGIN EXCLUSIVE TRANSACTION;',
         undefined,
         expect.any(Function)
       );
     });
 
-    it('should reject with CommitTransactionError', async () => {
-      const db = mock().db(); // run resolves
+    it('should use the driver transaction mode by default', async () => {
+      const db = mock().db();
       sqlite.Database = jest.fn((path, callback) => {
         setTimeout(callback, 1);
         return db;
       }) as any;
 
-      const connection = await new SQLite(':memory').create();
+      const connection = await new SQLite({
+        path: ':memory',
+        transactionMode: 'immediate',
+      }).create();
 
-      // Make run rejects
-      db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
-      await expect(connection.commit()).rejects.toThrow(CommitTransactionError);
+      await connection.beginTransaction();
+      expect(db.run).toHaveBeenLastCalledWith(
+        'BEGIN IMMEDIATE TRANSACTION;',
+        undefined,
+        expect.any(Function)
+      );
 
-      expect(db.run).toHaveBeenCalledTimes(1);
+      await connection.commit();
+      await connection.beginTransaction({ mode: 'deferred' });
       expect(db.run).toHaveBeenLastCalledWith(
-        'COMMIT;',
+        'BEGIN DEFERRED TRANSACTION;',
         undefined,
         expect.any(Function)
       );
     });
 
-    it('should reject with ops', async () => {
-      const db = mock().db(); // run resolves
+    it('should reject invalid transaction modes', async () => {
+      const db = mock().db();
       sqlite.Database = jest.fn((path, callback) => {
         setTimeout(callback, 1);
         return db;
@@ -563,20 +1222,181 @@ describe('SQLite', () => {
 
       const connection = await new SQLite(':memory').create();
 
-      // Make run rejects
-      db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
-      await expect(connection.commit()).rejects.toThrow('ops');
+      await expect(
+        connection.beginTransaction({ mode: 'shared' as any })
+      ).rejects.toThrow(BeginTransactionError);
 
-      expect(db.run).toHaveBeenCalledTimes(1);
-      expect(db.run).toHaveBeenLastCalledWith(
+      await expect(
+        connection.beginTransaction({ mode: 'shared' as any })
+      ).rejects.toThrow('Invalid transaction mode: shared');
+
+      await expect(connection.beginTransaction('x' as any)).rejects.toThrow(
+        'Invalid transaction options'
+      );
+
+      expect(connection.inTransaction).toBe(false);
+      expect(
+        () => new SQLite({ path: ':memory', transactionMode: 'x' as any })
+      ).toThrow('Invalid SQLite transaction mode');
+    });
+  });
+
+  describe('MegaConnection.transaction', () => {
+    const statements = (db: any) =>
+      db.run.mock.calls.slice(1).map((call) => call[0]);
+
+    it('should commit and resolve with the callback result', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.transaction(async (tx) => {
+          expect(tx).not.toBe(connection);
+          expect(tx.id).toBe(connection.id);
+          expect(tx.inTransaction).toBe(true);
+          await tx.query('UPDATE');
+          return 'done';
+        })
+      ).resolves.toBe('done');
+
+      expect(connection.inTransaction).toBe(false);
+      expect(statements(db)).toEqual([
+        'BEGIN TRANSACTION;',
+        'UPDATE',
         'COMMIT;',
-        undefined,
-        expect.any(Function)
+      ]);
+    });
+
+    it('should roll back and reject with the original error', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const error = new Error('ops');
+
+      await expect(
+        connection.transaction(() => {
+          throw error;
+        })
+      ).rejects.toBe(error);
+
+      expect(connection.inTransaction).toBe(false);
+      expect(statements(db)).toEqual(['BEGIN TRANSACTION;', 'ROLLBACK;']);
+    });
+
+    it('should attach the rollback failure to the original error', async () => {
+      const db = mock().db();
+      db.run = jest.fn((sql, values, callback) => {
+        if (sql === 'ROLLBACK;') return callback(new Error('rollback'));
+        callback(null);
+      });
+
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const error: any = new Error('ops');
+
+      await expect(
+        connection.transaction(() => Promise.reject(error))
+      ).rejects.toBe(error);
+
+      expect(error.rollbackError).toBeInstanceOf(RollbackTransactionError);
+      expect(error.rollbackError.message).toBe('rollback');
+    });
+
+    it('should retry when the database is busy', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const callback = jest
+        .fn()
+        .mockRejectedValueOnce(
+          new QueryError('SQLITE_BUSY: database is locked')
+        )
+        .mockRejectedValueOnce(new QueryError('SQLITE_LOCKED: table is locked'))
+        .mockResolvedValueOnce('done');
+
+      await expect(
+        connection.transaction(callback, {
+          mode: 'immediate',
+          retries: 2,
+          delay: 0,
+        })
+      ).resolves.toBe('done');
+
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(statements(db)).toEqual([
+        'BEGIN IMMEDIATE TRANSACTION;',
+        'ROLLBACK;',
+        'BEGIN IMMEDIATE TRANSACTION;',
+        'ROLLBACK;',
+        'BEGIN IMMEDIATE TRANSACTION;',
+        'COMMIT;',
+      ]);
+    });
+
+    it('should not retry other errors or exceed the retries', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      const other = jest.fn().mockRejectedValue(new Error('ops'));
+      await expect(
+        connection.transaction(other, { retries: 3, delay: 0 })
+      ).rejects.toThrow('ops');
+      expect(other).toHaveBeenCalledTimes(1);
+
+      const busy = jest
+        .fn()
+        .mockRejectedValue(new QueryError('SQLITE_BUSY: database is locked'));
+      await expect(
+        connection.transaction(busy, { retries: 2, delay: 0 })
+      ).rejects.toThrow('SQLITE_BUSY');
+      expect(busy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject invalid arguments', async () => {
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return mock().db();
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.transaction('x' as any)).rejects.toThrow(
+        BeginTransactionError
       );
+
+      await expect(
+        connection.transaction(() => 1, { retries: -1 })
+      ).rejects.toThrow('Invalid transaction retries');
+
+      await expect(
+        connection.transaction(() => 1, { delay: 'x' as any })
+      ).rejects.toThrow('Invalid transaction delay');
     });
   });
 
-  describe('MegaConnection.rollback', () => {
+  describe('MegaConnection.commit', () => {
     it('should resolve with undefined', async () => {
       const db = mock().db();
       sqlite.Database = jest.fn((path, callback) => {
@@ -585,18 +1405,19 @@ describe('SQLite', () => {
       }) as any;
 
       const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
 
-      await expect(connection.rollback()).resolves.toBeUndefined();
+      await expect(connection.commit()).resolves.toBeUndefined();
 
-      expect(db.run).toHaveBeenCalledTimes(2);
+      expect(db.run).toHaveBeenCalledTimes(3);
       expect(db.run).toHaveBeenLastCalledWith(
-        'ROLLBACK;',
+        'COMMIT;',
         undefined,
         expect.any(Function)
       );
     });
 
-    it('should reject with RollbackTransactionError', async () => {
+    it('should reject with CommitTransactionError', async () => {
       const db = mock().db(); // run resolves
       sqlite.Database = jest.fn((path, callback) => {
         setTimeout(callback, 1);
@@ -604,16 +1425,15 @@ describe('SQLite', () => {
       }) as any;
 
       const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
 
       // Make run rejects
       db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
-      await expect(connection.rollback()).rejects.toThrow(
-        RollbackTransactionError
-      );
+      await expect(connection.commit()).rejects.toThrow(CommitTransactionError);
 
       expect(db.run).toHaveBeenCalledTimes(1);
       expect(db.run).toHaveBeenLastCalledWith(
-        'ROLLBACK;',
+        'COMMIT;',
         undefined,
         expect.any(Function)
       );
@@ -627,17 +1447,2087 @@ describe('SQLite', () => {
       }) as any;
 
       const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
 
       // Make run rejects
       db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
-      await expect(connection.rollback()).rejects.toThrow('ops');
+      await expect(connection.commit()).rejects.toThrow('ops');
 
       expect(db.run).toHaveBeenCalledTimes(1);
       expect(db.run).toHaveBeenLastCalledWith(
-        'ROLLBACK;',
+        'COMMIT;',
         undefined,
         expect.any(Function)
       );
     });
+
+    it('should reject when no transaction is open', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.commit()).rejects.toThrow(CommitTransactionError);
+      await expect(connection.commit()).rejects.toThrow(
+        'No active transaction to commit'
+      );
+
+      expect(db.run).toHaveBeenCalledTimes(1); // foreign keys
+    });
+
+    it('should release savepoints for nested transactions', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      expect(connection.inTransaction).toBe(false);
+
+      await connection.beginTransaction();
+      await connection.beginTransaction();
+      await connection.beginTransaction();
+      expect(connection.inTransaction).toBe(true);
+
+      await connection.commit();
+      await connection.commit();
+      expect(connection.inTransaction).toBe(true);
+
+      await connection.commit();
+      expect(connection.inTransaction).toBe(false);
+
+      expect(db.run.mock.calls.slice(1).map((call) => call[0])).toEqual([
+        'BEGIN TRANSACTION;',
+        'SAVEPOINT megaorm_1;',
+        'SAVEPOINT megaorm_2;',
+        'RELEASE SAVEPOINT megaorm_2;',
+        'RELEASE SAVEPOINT megaorm_1;',
+        'COMMIT;',
+      ]);
+    });
+
+    it('should keep the transaction open when commit fails', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
+
+      db.run = jest.fn((sql, values, callback) => callback(new Error('busy')));
+      await expect(connection.commit()).rejects.toThrow('busy');
+      expect(connection.inTransaction).toBe(true);
+    });
+  });
+
+  describe('MegaConnection.rollback', () => {
+    it('should resolve with undefined', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1); // Executed after db instance is created
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
+
+      await expect(connection.rollback()).resolves.toBeUndefined();
+
+      expect(db.run).toHaveBeenCalledTimes(3);
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ROLLBACK;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with RollbackTransactionError', async () => {
+      const db = mock().db(); // run resolves
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
+
+      // Make run rejects
+      db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
+      await expect(connection.rollback()).rejects.toThrow(
+        RollbackTransactionError
+      );
+
+      expect(db.run).toHaveBeenCalledTimes(1);
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ROLLBACK;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with ops', async () => {
+      const db = mock().db(); // run resolves
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
+
+      // Make run rejects
+      db.run = jest.fn((sql, values, callback) => callback(new Error('ops')));
+      await expect(connection.rollback()).rejects.toThrow('ops');
+
+      expect(db.run).toHaveBeenCalledTimes(1);
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ROLLBACK;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject when no transaction is open', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.rollback()).rejects.toThrow(
+        RollbackTransactionError
+      );
+
+      await expect(connection.rollback()).rejects.toThrow(
+        'No active transaction to roll back'
+      );
+
+      expect(db.run).toHaveBeenCalledTimes(1); // foreign keys
+    });
+
+    it('should roll back nested transactions to a savepoint', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await connection.beginTransaction();
+      await connection.beginTransaction();
+      await connection.rollback();
+      expect(connection.inTransaction).toBe(true);
+
+      await connection.rollback();
+      expect(connection.inTransaction).toBe(false);
+
+      expect(db.run.mock.calls.slice(1).map((call) => call[0])).toEqual([
+        'BEGIN TRANSACTION;',
+        'SAVEPOINT megaorm_1;',
+        'ROLLBACK TO SAVEPOINT megaorm_1;',
+        'RELEASE SAVEPOINT megaorm_1;',
+        'ROLLBACK;',
+      ]);
+    });
+  });
+
+  describe('MegaConnection.prepare', () => {
+    it('should run, fetch and iterate with prepared statements', async () => {
+      const db = mock().db();
+      const statements = db.statements;
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const sql = 'SELECT * FROM users WHERE id = :id;';
+      const prepared = await connection.prepare(sql);
+
+      expect(prepared.sql).toBe(sql);
+      await expect(prepared.run([1])).resolves.toEqual({
+        changes: 1,
+        lastID: 7,
+      });
+      await expect(prepared.all()).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+      await expect(prepared.get({ id: 1 })).resolves.toEqual({ id: 1 });
+      expect(statements[0].run).toHaveBeenCalledWith([1], expect.any(Function));
+      expect(statements[0].get).toHaveBeenCalledWith(
+        { ':id': 1 },
+        expect.any(Function)
+      );
+
+      const rows = [];
+      for await (const row of prepared.iterate()) rows.push(row);
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+
+      // Breaking out resets the statement
+      for await (const row of prepared.iterate()) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(statements[0].reset).toHaveBeenCalledTimes(5);
+    });
+
+    it('should reject once the statement is finalized', async () => {
+      const db = mock().db();
+      const statements = db.statements;
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const prepared = await connection.prepare('SELECT 1;');
+
+      await prepared.finalize();
+      await prepared.finalize();
+      expect(statements[0].finalize).toHaveBeenCalledTimes(1);
+
+      await expect(prepared.all()).rejects.toThrow(
+        'Cannot execute a statement once it is finalized'
+      );
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db('prepare');
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.prepare(123 as any)).rejects.toThrow(
+        'Invalid query: 123'
+      );
+
+      await expect(connection.prepare('SELEC 1;')).rejects.toMatchObject({
+        message: 'ops',
+        sql: 'SELEC 1;',
+      });
+    });
+
+    it('should finalize statements before closing', async () => {
+      const db = mock().db();
+      const statements = db.statements;
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        statementCache: 1,
+      }).create();
+
+      await connection.prepare('SELECT 1;');
+      await connection.query('SELECT 2;');
+      await connection.close();
+
+      expect(statements[0].finalize).toHaveBeenCalledTimes(1);
+      expect(statements[1].finalize).toHaveBeenCalledTimes(1);
+      expect(db.close).toHaveBeenCalledTimes(1);
+
+      await expect(connection.prepare('SELECT 1;')).rejects.toThrow(
+        'Cannot perform further operations once the connection is closed'
+      );
+    });
+
+    it('should cache statements used by queries', async () => {
+      const db = mock().db();
+      const statements = db.statements;
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        statementCache: 2,
+      }).create();
+
+      await connection.query('SELECT * FROM users WHERE id = ?;', [1]);
+      await connection.query('SELECT * FROM users WHERE id = ?;', [2]);
+      expect(db.prepare).toHaveBeenCalledTimes(1);
+      expect(statements[0].all).toHaveBeenCalledTimes(2);
+
+      await expect(
+        connection.query('INSERT INTO users VALUES (1);')
+      ).resolves.toBe(7);
+
+      // Evicts the least recently used statement
+      await connection.query('DELETE FROM users;');
+      expect(db.prepare).toHaveBeenCalledTimes(3);
+      expect(statements[0].finalize).toHaveBeenCalledTimes(1);
+
+      // Statements with unbound placeholders are not cached
+      await connection.query('SELECT ?;');
+      expect(db.prepare).toHaveBeenCalledTimes(3);
+      expect(db.all).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid cache sizes', () => {
+      expect(() => new SQLite({ path: ':memory', statementCache: -1 })).toThrow(
+        'Invalid SQLite statement cache size: -1'
+      );
+    });
+  });
+
+  describe('MegaConnection.stream', () => {
+    it('should stream rows one at a time', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const stream = connection.stream(
+        'SELECT * FROM users WHERE id > ?;',
+        [0]
+      );
+
+      expect(stream.readableObjectMode).toBe(true);
+
+      const rows = [];
+      for await (const row of stream) rows.push(row);
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(db.all).not.toHaveBeenCalled();
+      expect(db.statements[0].bind).toHaveBeenCalledWith(
+        [0],
+        expect.any(Function)
+      );
+      expect(db.statements[0].finalize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should finalize the statement when the consumer breaks out', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const stream = connection.stream('SELECT * FROM users;');
+
+      for await (const row of stream) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(stream.destroyed).toBe(true);
+      expect(db.statements[0].finalize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit QueryError', async () => {
+      const db = mock().db('prepare');
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const stream = connection.stream('SELEC 1;');
+
+      await expect(stream.toArray()).rejects.toMatchObject({
+        message: 'ops',
+        sql: 'SELEC 1;',
+      });
+
+      await expect(
+        connection.stream('SELECT ?;', [Symbol('id') as any]).toArray()
+      ).rejects.toThrow(QueryError);
+    });
+
+    it('should emit errors before any row is read', async () => {
+      const db = mock().db('prepare');
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const failed = (stream: Readable) =>
+        new Promise((resolve) => stream.on('error', resolve));
+
+      const invalid = connection.stream('SELECT 1;', undefined, 1 as any);
+
+      await expect(failed(invalid)).resolves.toThrow(
+        'Invalid stream options: 1'
+      );
+      expect(invalid.destroyed).toBe(true);
+
+      await connection.transaction((tx) =>
+        expect(failed(tx.stream('SELEC 1;'))).resolves.toMatchObject({
+          message: 'ops',
+          sql: 'SELEC 1;',
+        })
+      );
+    });
+  });
+
+  describe('MegaConnection.batch', () => {
+    it('should run every set of values in one transaction', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.batch(
+          'INSERT INTO users (name) VALUES (?);',
+          [['john'], ['jane'], ['jack']],
+          { chunkSize: 2 }
+        )
+      ).resolves.toEqual({ count: 3, changes: 3, lastID: 7, chunks: 2 });
+
+      expect(db.prepare).toHaveBeenCalledTimes(1);
+      expect(db.statements[0].run).toHaveBeenCalledTimes(3);
+      expect(db.statements[0].finalize).toHaveBeenCalledTimes(1);
+      expect(db.run.mock.calls.slice(1).map((call) => call[0])).toEqual([
+        'BEGIN TRANSACTION;',
+        'COMMIT;',
+      ]);
+    });
+
+    it('should resolve without running an empty batch', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.batch('INSERT;', [])).resolves.toEqual({
+        count: 0,
+        changes: 0,
+        lastID: undefined,
+        chunks: 0,
+      });
+
+      expect(db.prepare).not.toHaveBeenCalled();
+    });
+
+    it('should roll back and reject when an execution fails', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      db.prepare.mockImplementationOnce((sql, callback) => {
+        const stmt = statement();
+        stmt.run = jest.fn((...args) => args.pop()(new Error('ops')));
+        db.statements.push(stmt);
+        setTimeout(() => callback(null), 1);
+        return stmt;
+      });
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.batch('INSERT INTO users (name) VALUES (?);', [['john']])
+      ).rejects.toMatchObject({
+        message: 'ops',
+        sql: 'INSERT INTO users (name) VALUES (?);',
+        values: ['john'],
+      });
+
+      expect(connection.inTransaction).toBe(false);
+      expect(db.statements[0].finalize).toHaveBeenCalledTimes(1);
+      expect(db.run.mock.calls.slice(1).map((call) => call[0])).toEqual([
+        'BEGIN TRANSACTION;',
+        'ROLLBACK;',
+      ]);
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.batch('INSERT;', {} as any)).rejects.toThrow(
+        'Invalid batch values: [object Object]'
+      );
+
+      await expect(
+        connection.batch('INSERT;', [[1]], { chunkSize: 0 })
+      ).rejects.toThrow('Invalid batch chunk size: 0');
+
+      await expect(
+        connection.batch('INSERT;', [[1]], [] as any)
+      ).rejects.toThrow(QueryError);
+    });
+  });
+
+  describe('MegaConnection.exec', () => {
+    it('should execute multi-statement scripts', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const script = 'CREATE TABLE a (id); CREATE TABLE b (id);';
+
+      await expect(connection.exec(script)).resolves.toBeUndefined();
+      expect(db.exec).toHaveBeenCalledWith(script, expect.any(Function));
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db('exec');
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.exec(123 as any)).rejects.toThrow(
+        'Invalid script: 123'
+      );
+
+      await expect(connection.exec('CREATE;')).rejects.toMatchObject({
+        message: 'ops',
+        sql: 'CREATE;',
+      });
+
+      await connection.close();
+      await expect(connection.exec('CREATE;')).rejects.toThrow(QueryError);
+    });
+  });
+
+  describe('MegaConnection queue', () => {
+    it('should run operations one at a time in call order', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const order = [];
+
+      // The first query takes the longest
+      db.run.mockImplementation((sql, values, callback) => {
+        setTimeout(
+          () => callback.call({ changes: 0 }, null),
+          sql === 'A' ? 10 : 1
+        );
+      });
+
+      await Promise.all(
+        ['A', 'B', 'C'].map((sql) =>
+          connection.query(sql).then(() => order.push(sql))
+        )
+      );
+
+      expect(order).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should keep other queries out of a running transaction', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      const transaction = connection.transaction(async (tx) => {
+        await tx.query('UPDATE 1');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await tx.query('UPDATE 2');
+      });
+
+      const query = connection.query('DELETE');
+
+      await Promise.all([transaction, query]);
+
+      expect(db.run.mock.calls.slice(1).map((call) => call[0])).toEqual([
+        'BEGIN TRANSACTION;',
+        'UPDATE 1',
+        'UPDATE 2',
+        'COMMIT;',
+        'DELETE',
+      ]);
+    });
+
+    it('should reject the handle once the transaction is done', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      let handle: any;
+
+      await connection.transaction(async (tx) => {
+        handle = tx;
+        await expect(tx.close()).rejects.toThrow(
+          'Cannot close the connection inside a transaction'
+        );
+      });
+
+      await expect(handle.query('SELECT 1;')).rejects.toThrow(
+        'Cannot use a transaction handle once the transaction is done'
+      );
+
+      await expect(handle.commit()).rejects.toThrow(CommitTransactionError);
+    });
+
+    it('should reject the connection inside its transaction callback', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const prepared = await connection.prepare('INSERT');
+      const message =
+        'Cannot use the connection inside its transaction callback, use the transaction handle instead';
+
+      await connection.transaction(async (tx) => {
+        await expect(connection.query('SELECT 1;')).rejects.toThrow(message);
+        await expect(prepared.run()).rejects.toThrow(QueryError);
+        await expect(connection.commit()).rejects.toThrow(
+          CommitTransactionError
+        );
+
+        await expect(
+          tx.transaction(() => connection.exec('DELETE;'))
+        ).rejects.toThrow(message);
+
+        await tx.query('UPDATE');
+      });
+
+      // The connection works again once the transaction is done
+      await expect(connection.query('SELECT 1;')).resolves.toEqual([
+        { name: 'simon' },
+      ]);
+    });
+
+    it('should queue statements prepared in a transaction once it is done', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const prepared = await connection.transaction((tx) =>
+        tx.prepare('INSERT')
+      );
+      const order = [];
+
+      const transaction = connection.transaction(async (tx) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await tx.query('UPDATE');
+        order.push('transaction');
+      });
+
+      // The statement waits for the transaction of another caller
+      await prepared.run().then(() => order.push('statement'));
+      await transaction;
+
+      expect(order).toEqual(['transaction', 'statement']);
+    });
+
+    it('should queue prepared statement executions', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const prepared = await connection.prepare('INSERT');
+      const order = [];
+
+      const transaction = connection.transaction(async (tx) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await tx.query('UPDATE');
+        order.push('transaction');
+      });
+
+      await prepared.run().then(() => order.push('statement'));
+      await transaction;
+
+      expect(order).toEqual(['transaction', 'statement']);
+    });
+  });
+
+  describe('MegaConnection.query timeouts', () => {
+    // Queries that only finish once interrupted
+    const hang = (db: any) => {
+      let pending: (error: Error) => void;
+
+      db.all = jest.fn((sql, values, callback) => (pending = callback));
+      db.interrupt = jest.fn(() => {
+        const error: any = new Error('SQLITE_INTERRUPT: interrupted');
+        error.code = 'SQLITE_INTERRUPT';
+        error.errno = 9;
+        pending(error);
+      });
+    };
+
+    it('should interrupt queries that time out', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      hang(db);
+
+      const query = connection.query('SELECT * FROM huge;', [], {
+        timeout: 10,
+      });
+
+      await expect(query).rejects.toThrow(QueryTimeoutError);
+      await expect(query).rejects.toThrow(QueryError);
+      await expect(query).rejects.toMatchObject({
+        message: 'Query timed out after 10ms',
+        code: 'SQLITE_INTERRUPT',
+        sql: 'SELECT * FROM huge;',
+      });
+
+      expect(db.interrupt).toHaveBeenCalledTimes(1);
+
+      // The connection is still usable
+      db.all = jest.fn((sql, values, callback) => callback(null, []));
+      await expect(connection.query('SELECT 1;')).resolves.toEqual([]);
+    });
+
+    it('should interrupt queries when the signal is aborted', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      hang(db);
+
+      const controller = new AbortController();
+      const query = connection.query('SELECT * FROM huge;', [], {
+        signal: controller.signal,
+      });
+
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(query).rejects.toThrow(QueryAbortedError);
+      await expect(query).rejects.toThrow('Query aborted');
+
+      // Already aborted signals reject without running the query
+      db.all.mockClear();
+      await expect(
+        connection.query('SELECT 1;', [], { signal: controller.signal })
+      ).rejects.toThrow(QueryAbortedError);
+      expect(db.all).not.toHaveBeenCalled();
+    });
+
+    it('should not interrupt queries that finish in time', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const controller = new AbortController();
+      await connection.query('SELECT 1;', [], {
+        timeout: 10,
+        signal: controller.signal,
+      });
+
+      controller.abort();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(db.interrupt).not.toHaveBeenCalled();
+    });
+
+    it('should reset the transaction when SQLite rolled it back', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      await connection.beginTransaction();
+
+      db.run = jest.fn((sql, values, callback) =>
+        callback(new Error('cannot rollback - no transaction is active'))
+      );
+
+      await expect(connection.rollback()).resolves.toBeUndefined();
+      expect(connection.inTransaction).toBe(false);
+    });
+
+    it('should reset nested transactions when SQLite rolled them back', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const run = db.run;
+
+      // The interrupt rolls back the whole transaction, savepoints included
+      const result = connection.transaction((tx) =>
+        tx.transaction(() => {
+          db.run = jest.fn((sql, values, callback) =>
+            callback(new Error(`SQLITE_ERROR: no such savepoint: megaorm_1`))
+          );
+
+          return Promise.reject(new Error('SQLITE_INTERRUPT: interrupted'));
+        })
+      );
+
+      await expect(result).rejects.toThrow('SQLITE_INTERRUPT: interrupted');
+      await expect(result).rejects.not.toHaveProperty('rollbackError');
+      expect(connection.inTransaction).toBe(false);
+
+      // The connection is usable afterwards
+      db.run = run;
+      await expect(connection.beginTransaction()).resolves.toBeUndefined();
+      expect(db.run).toHaveBeenLastCalledWith(
+        'BEGIN TRANSACTION;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.query('SELECT 1;', [], { timeout: 0 })
+      ).rejects.toThrow('Invalid query timeout: 0');
+
+      await expect(
+        connection.query('SELECT 1;', [], { signal: {} as any })
+      ).rejects.toThrow('Invalid query signal: [object Object]');
+    });
+  });
+
+  describe('SQLite hooks', () => {
+    it('should report queries, connections and transactions', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const hooks = {
+        onQuery: jest.fn(),
+        onSlowQuery: jest.fn(),
+        onConnect: jest.fn(),
+        onClose: jest.fn(),
+        onTransaction: jest.fn(),
+      };
+
+      const connection = await new SQLite({
+        path: ':memory',
+        hooks,
+        slowQueryThreshold: 0,
+      }).create();
+
+      expect(hooks.onConnect).toHaveBeenCalledWith({
+        connection: connection.id,
+        duration: expect.any(Number),
+      });
+
+      await connection.query('SELECT * FROM users WHERE id = ?;', [1]);
+
+      expect(hooks.onQuery).toHaveBeenLastCalledWith({
+        connection: connection.id,
+        sql: 'SELECT * FROM users WHERE id = ?;',
+        values: [1],
+        duration: expect.any(Number),
+        rows: 1,
+      });
+
+      expect(hooks.onSlowQuery).toHaveBeenCalledWith(
+        hooks.onQuery.mock.calls[0][0]
+      );
+
+      db.run.mockImplementation((sql, values, callback) =>
+        callback.call({ changes: 3 }, null)
+      );
+
+      await connection.transaction((tx) => tx.query('DELETE FROM users;'));
+
+      expect(hooks.onQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ sql: 'DELETE FROM users;', changes: 3 })
+      );
+
+      expect(
+        hooks.onTransaction.mock.calls.map(([event]) => [
+          event.action,
+          event.depth,
+        ])
+      ).toEqual([
+        ['begin', 1],
+        ['commit', 1],
+      ]);
+
+      await connection.close();
+      expect(hooks.onClose).toHaveBeenCalledWith({
+        connection: connection.id,
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should report failed queries with redacted values', async () => {
+      const db = mock().db('all');
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const onQueryError = jest.fn(() => {
+        throw new Error('Broken logger');
+      });
+
+      const onSlowQuery = jest.fn();
+
+      const warning = jest
+        .spyOn(process, 'emitWarning')
+        .mockImplementation(() => undefined);
+
+      const connection = await new SQLite({
+        path: ':memory',
+        hooks: { onQueryError, onSlowQuery },
+        redactValues: true,
+      }).create();
+
+      await expect(
+        connection.query('SELECT * FROM users WHERE email = ?;', ['a@b.c'])
+      ).rejects.toThrow('ops');
+
+      expect(warning).toHaveBeenCalledWith(
+        'The onQueryError hook failed: Broken logger',
+        'SQLiteHookWarning'
+      );
+
+      warning.mockRestore();
+
+      expect(onQueryError).toHaveBeenCalledWith({
+        connection: connection.id,
+        sql: 'SELECT * FROM users WHERE email = ?;',
+        values: ['[REDACTED]'],
+        duration: expect.any(Number),
+        error: expect.any(QueryError),
+      });
+
+      expect(onSlowQuery).not.toHaveBeenCalled();
+    });
+
+    it('should report prepared statements, batches and streams', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const onQuery = jest.fn();
+      const onQueryError = jest.fn();
+
+      const connection = await new SQLite({
+        path: ':memory',
+        hooks: { onQuery, onQueryError },
+      }).create();
+
+      const sqls = () => onQuery.mock.calls.map(([event]) => event.sql);
+
+      db.run.mockImplementation((sql, values, callback) =>
+        callback.call({ changes: 0 }, null)
+      );
+
+      // Every execution of a prepared statement
+      const prepared = await connection.prepare('INSERT INTO users;');
+      await prepared.run([1]);
+      await prepared.all();
+      await prepared.get();
+
+      expect(onQuery.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ values: [1], changes: 1 }),
+        expect.objectContaining({ values: undefined, rows: 2 }),
+        expect.objectContaining({ values: undefined, rows: 1 }),
+      ]);
+
+      db.statements[0].run.mockImplementationOnce((...args) =>
+        args.pop()(new Error('ops'))
+      );
+
+      await expect(prepared.run([2])).rejects.toThrow('ops');
+      expect(onQueryError).toHaveBeenCalledWith(
+        expect.objectContaining({ sql: 'INSERT INTO users;', values: [2] })
+      );
+
+      // Every row of a batch, between the transaction statements
+      onQuery.mockClear();
+      await connection.batch('INSERT INTO users VALUES (?);', [[1], [2]]);
+
+      expect(sqls()).toEqual([
+        'BEGIN TRANSACTION;',
+        'INSERT INTO users VALUES (?);',
+        'INSERT INTO users VALUES (?);',
+        'COMMIT;',
+      ]);
+
+      // Streams and iterations once they end, or once they are stopped
+      onQuery.mockClear();
+      for await (const row of connection.stream('SELECT * FROM users;')) {
+        expect(row).toBeDefined();
+      }
+
+      const posts = await connection.prepare('SELECT * FROM posts;');
+      for await (const row of posts.iterate()) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(onQuery.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ sql: 'SELECT * FROM users;', rows: 2 }),
+        expect.objectContaining({ sql: 'SELECT * FROM posts;', rows: 1 }),
+      ]);
+    });
+
+    it('should throw CreateConnectionError for invalid hooks', () => {
+      expect(
+        () => new SQLite({ path: ':memory', hooks: { onQuery: 1 as any } })
+      ).toThrow('Invalid SQLite hook: onQuery');
+
+      expect(
+        () => new SQLite({ path: ':memory', hooks: { onTest() {} } as any })
+      ).toThrow('Unknown SQLite hook: onTest');
+
+      expect(() => new SQLite({ path: ':memory', hooks: [] as any })).toThrow(
+        'Invalid SQLite hooks: '
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', slowQueryThreshold: -1 })
+      ).toThrow('Invalid SQLite slow query threshold: -1');
+    });
+  });
+
+  describe('MegaConnection.backup', () => {
+    // sqlite3 backup mock, copying the given number of pages
+    const backup = (db: any, pageCount = 5, error?: Error) => {
+      const handle = {
+        completed: false,
+        failed: false,
+        remaining: -1,
+        pageCount: -1,
+        step: jest.fn((pages, callback) => {
+          if (error) {
+            handle.failed = true;
+            return callback(error);
+          }
+
+          if (handle.remaining === -1) handle.remaining = pageCount;
+          handle.pageCount = pageCount;
+          handle.remaining = Math.max(handle.remaining - pages, 0);
+          handle.completed = handle.remaining === 0;
+          callback(null);
+        }),
+        finish: jest.fn((callback) => callback && callback(null)),
+      };
+
+      db.backup = jest.fn((...args) => {
+        setTimeout(() => args.pop()(null), 1);
+        return handle;
+      });
+
+      return handle;
+    };
+
+    it('should copy the database in steps and report the progress', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const handle = backup(db, 5);
+      const onProgress = jest.fn();
+
+      await expect(
+        connection.backup('./backup.sqlite', { pagesPerStep: 2, onProgress })
+      ).resolves.toBeUndefined();
+
+      expect(db.backup).toHaveBeenCalledWith(
+        './backup.sqlite',
+        'main',
+        'main',
+        true,
+        expect.any(Function)
+      );
+
+      expect(handle.step).toHaveBeenCalledTimes(3);
+      expect(handle.finish).toHaveBeenCalledTimes(1);
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { remaining: 3, pageCount: 5, percent: 40 },
+        { remaining: 1, pageCount: 5, percent: 80 },
+        { remaining: 0, pageCount: 5, percent: 100 },
+      ]);
+    });
+
+    it('should restore the database from a file', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const handle = backup(db, 150);
+
+      await connection.restore('./backup.sqlite');
+
+      expect(db.backup).toHaveBeenCalledWith(
+        './backup.sqlite',
+        'main',
+        'main',
+        false,
+        expect.any(Function)
+      );
+
+      expect(handle.step).toHaveBeenCalledWith(100, expect.any(Function));
+      expect(handle.step).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject with BackupError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const error: any = new Error('SQLITE_CANTOPEN: unable to open database');
+      error.code = 'SQLITE_CANTOPEN';
+      const handle = backup(db, 5, error);
+
+      const result = connection.backup('./missing/backup.sqlite');
+
+      await expect(result).rejects.toThrow(BackupError);
+      await expect(result).rejects.toMatchObject({
+        message:
+          'Failed to back up ./missing/backup.sqlite: SQLITE_CANTOPEN: unable to open database',
+        code: 'SQLITE_CANTOPEN',
+      });
+
+      expect(handle.finish).toHaveBeenCalledTimes(1);
+
+      await expect(connection.backup('')).rejects.toThrow(
+        'Invalid backup path: '
+      );
+
+      await expect(
+        connection.restore('./backup.sqlite', { pagesPerStep: 0 })
+      ).rejects.toThrow('Invalid backup pages per step: 0');
+
+      await expect(
+        connection.backup('./backup.sqlite', { onProgress: 1 as any })
+      ).rejects.toThrow('Invalid backup progress callback: 1');
+    });
+
+    it('should retry steps that hit a busy database', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      const handle = backup(db, 5);
+      const step = handle.step.getMockImplementation();
+      const busy: any = new Error('SQLITE_BUSY: database is locked');
+      busy.code = 'SQLITE_BUSY';
+
+      handle.step.mockImplementationOnce((pages, callback) => callback(busy));
+      await expect(connection.backup('./backup.sqlite')).resolves.toBe(
+        undefined
+      );
+
+      expect(handle.step).toHaveBeenCalledTimes(2);
+
+      // Gives up once the retries are exhausted
+      handle.step.mockImplementation((pages, callback) => callback(busy));
+      await expect(connection.backup('./backup.sqlite')).rejects.toMatchObject({
+        code: 'SQLITE_BUSY',
+      });
+
+      expect(handle.step).toHaveBeenCalledTimes(2 + 6);
+      handle.step.mockImplementation(step);
+    });
+
+    it('should wait for the running transaction', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+      backup(db, 5);
+
+      const transaction = connection.transaction(async (tx) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        await tx.query('UPDATE');
+      });
+
+      const copy = connection.backup('./backup.sqlite');
+      await transaction;
+
+      expect(db.backup).not.toHaveBeenCalled();
+      await copy;
+      expect(db.backup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should vacuum into a file', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.vacuumInto('./copy.sqlite')
+      ).resolves.toBeUndefined();
+
+      expect(db.run).toHaveBeenLastCalledWith(
+        'VACUUM INTO ?;',
+        ['./copy.sqlite'],
+        expect.any(Function)
+      );
+
+      db.run = jest.fn((sql, values, callback) =>
+        callback(new Error('output file already exists'))
+      );
+
+      await expect(connection.vacuumInto('./copy.sqlite')).rejects.toThrow(
+        'Failed to vacuum into ./copy.sqlite: output file already exists'
+      );
+
+      await connection.close();
+      await expect(connection.vacuumInto('./copy.sqlite')).rejects.toThrow(
+        BackupError
+      );
+    });
+  });
+
+  describe('MegaConnection.attach', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should attach and detach databases', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, mode, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        uri: true,
+      }).create();
+
+      // URI file names are only enabled when asked for
+      expect(sqlite.Database).toHaveBeenCalledWith(
+        ':memory',
+        sqlite.OPEN_READWRITE | sqlite.OPEN_CREATE | sqlite.OPEN_URI,
+        expect.any(Function)
+      );
+
+      await expect(
+        connection.attach('./archive.sqlite', 'archive')
+      ).resolves.toBeUndefined();
+
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ATTACH DATABASE ? AS "archive";',
+        ['./archive.sqlite'],
+        expect.any(Function)
+      );
+
+      await connection.attach('./my #1?.sqlite', 'logs', { readonly: true });
+
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ATTACH DATABASE ? AS "logs";',
+        ['file:./my%20%231%3F.sqlite?mode=ro'],
+        expect.any(Function)
+      );
+
+      await expect(connection.detach('archive')).resolves.toBeUndefined();
+
+      expect(db.run).toHaveBeenLastCalledWith(
+        'DETACH DATABASE "archive";',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should list attached databases', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      db.all = jest.fn((sql, values, callback) =>
+        callback(null, [
+          { seq: 0, name: 'main', file: '' },
+          { seq: 1, name: 'temp', file: '' },
+          { seq: 2, name: 'archive', file: '/data/archive.sqlite' },
+        ])
+      );
+
+      await expect(connection.listAttached()).resolves.toEqual([
+        { alias: 'archive', path: '/data/archive.sqlite' },
+      ]);
+
+      expect(db.all).toHaveBeenCalledWith(
+        'PRAGMA database_list;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.attach('', 'archive')).rejects.toThrow(
+        'Invalid attach path: '
+      );
+
+      await expect(
+        connection.attach('./archive.sqlite', 'my-archive')
+      ).rejects.toThrow('Invalid attach alias: my-archive');
+
+      await expect(
+        connection.attach('./archive.sqlite', 'MAIN')
+      ).rejects.toThrow('Invalid attach alias: MAIN');
+
+      await expect(
+        connection.attach('./archive.sqlite', 'archive', 'test' as any)
+      ).rejects.toThrow('Invalid attach options: test');
+
+      await expect(connection.detach('temp')).rejects.toThrow(
+        'Invalid detach alias: temp'
+      );
+
+      db.run = jest.fn((sql, values, callback) =>
+        callback(new Error('database archive is already in use'))
+      );
+
+      await expect(
+        connection.attach('./archive.sqlite', 'archive')
+      ).rejects.toThrow(QueryError);
+
+      await connection.close();
+      await expect(connection.listAttached()).rejects.toThrow(QueryError);
+    });
+
+    it('should attach the databases from the driver options', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, mode, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      await new SQLite({
+        path: ':memory',
+        uri: true,
+        attach: {
+          archive: './archive.sqlite',
+          logs: { path: './logs.sqlite', readonly: true },
+        },
+      }).create();
+
+      expect(db.run).toHaveBeenCalledTimes(3);
+      expect(db.run).toHaveBeenCalledWith(
+        'ATTACH DATABASE ? AS "archive";',
+        ['./archive.sqlite'],
+        expect.any(Function)
+      );
+      expect(db.run).toHaveBeenLastCalledWith(
+        'ATTACH DATABASE ? AS "logs";',
+        ['file:./logs.sqlite?mode=ro'],
+        expect.any(Function)
+      );
+
+      db.run = jest.fn((sql, values, callback) =>
+        callback(sql.startsWith('ATTACH') ? new Error('unable to open') : null)
+      );
+
+      const driver = new SQLite({
+        path: ':memory',
+        uri: true,
+        attach: { archive: 'x' },
+      });
+
+      await expect(driver.create()).rejects.toThrow(
+        'Failed to attach archive: unable to open'
+      );
+      expect(db.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate the attachments', () => {
+      expect(() => new SQLite({ path: ':memory', attach: [] as any })).toThrow(
+        'Invalid SQLite attachments: '
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', attach: { temp: './x.sqlite' } })
+      ).toThrow('Invalid SQLite attachment alias: temp');
+
+      expect(
+        () => new SQLite({ path: ':memory', attach: { archive: '' } })
+      ).toThrow('Invalid SQLite attachment: archive');
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            attach: { archive: { path: './x.sqlite', readonly: 1 as any } },
+          })
+      ).toThrow('Invalid SQLite attachment: archive');
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            attach: { archive: { path: './x.sqlite', readonly: true } },
+          })
+      ).toThrow('Read-only attachments require the uri option: archive');
+
+      expect(() => new SQLite({ path: ':memory', uri: 1 as any })).toThrow(
+        'Invalid SQLite uri option: 1'
+      );
+
+      expect(
+        () =>
+          new SQLite({ path: ':memory', engine: 'better-sqlite3', uri: true })
+      ).toThrow('The better-sqlite3 engine cannot read URI file names');
+    });
+
+    it('should only attach read-only databases with URIs enabled', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.attach('./archive.sqlite', 'archive', { readonly: true })
+      ).rejects.toThrow(
+        'Cannot attach databases in read-only mode without the uri driver option'
+      );
+
+      expect(db.run).not.toHaveBeenCalledWith(
+        'ATTACH DATABASE ? AS "archive";',
+        expect.anything(),
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('SQLite functions', () => {
+    it('should validate the functions and aggregates', () => {
+      expect(
+        () => new SQLite({ path: ':memory', functions: [] as any })
+      ).toThrow('Invalid SQLite functions: ');
+
+      expect(
+        () => new SQLite({ path: ':memory', functions: { 'my-fn': () => 1 } })
+      ).toThrow('Invalid SQLite function name: my-fn');
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            functions: { slugify: { fn: (title) => title, arity: 200 } },
+          })
+      ).toThrow('Invalid SQLite function: slugify');
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            aggregates: { median: { step: 1 as any } },
+          })
+      ).toThrow('Invalid SQLite aggregate: median');
+    });
+
+    it('should throw CreateConnectionError with the sqlite3 engine', () => {
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            functions: { slugify: (title) => title },
+          })
+      ).toThrow(
+        'The sqlite3 engine does not support user-defined functions, use the node:sqlite or better-sqlite3 engine'
+      );
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            aggregates: { total: { step: (sum, value) => sum + value } },
+          })
+      ).toThrow(
+        'The sqlite3 engine does not support user-defined aggregates, use the node:sqlite or better-sqlite3 engine'
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', functions: {}, aggregates: {} })
+      ).not.toThrow();
+    });
+  });
+
+  describe('SQLite REGEXP', () => {
+    it('should match values with REGEXP', () => {
+      expect(REGEXP.fn('^a.c$', 'abc')).toBe(1);
+      expect(REGEXP.fn('^a.c$', 'abcd')).toBe(0);
+      expect(REGEXP.fn('^1', 123)).toBe(1);
+      expect(REGEXP.fn(null, 'abc')).toBeNull();
+      expect(REGEXP.fn('abc', null)).toBeNull();
+      expect(() => REGEXP.fn('(', 'abc')).toThrow(SyntaxError);
+    });
+
+    it('should validate the REGEXP option', () => {
+      expect(
+        () => new SQLite({ path: ':memory', regexp: 'yes' as any })
+      ).toThrow('Invalid SQLite regexp option: yes');
+
+      expect(() => new SQLite({ path: ':memory', regexp: true })).toThrow(
+        'The sqlite3 engine does not support the REGEXP operator, use the node:sqlite or better-sqlite3 engine'
+      );
+    });
+  });
+
+  describe('SQLite engines', () => {
+    it('should validate the engine', () => {
+      expect(
+        () => new SQLite({ path: ':memory', engine: 'mysql' as any })
+      ).toThrow('Invalid SQLite engine: mysql');
+
+      expect(
+        () =>
+          new SQLite({
+            path: ':memory',
+            engine: 'better-sqlite3',
+            functions: { slugify: (title) => title },
+            regexp: true,
+          })
+      ).not.toThrow();
+    });
+
+    it('should reject with CreateConnectionError if the engine cannot be loaded', async () => {
+      const driver = new SQLite({ path: ':memory', engine: 'better-sqlite3' });
+
+      jest.doMock(
+        'better-sqlite3',
+        () => {
+          throw new Error('Cannot find module better-sqlite3');
+        },
+        { virtual: true }
+      );
+
+      await expect(driver.create()).rejects.toThrow(CreateConnectionError);
+      await expect(driver.create()).rejects.toThrow(
+        'Cannot find module better-sqlite3'
+      );
+    });
+
+    it('should only load sqlite3 with the sqlite3 engine', async () => {
+      // sqlite3 is missing from here on
+      jest.resetModules();
+      jest.doMock('sqlite3', () => {
+        throw new Error('Cannot find module sqlite3');
+      });
+
+      jest.doMock(
+        'better-sqlite3',
+        () =>
+          jest.fn(() => ({
+            prepare: () => ({
+              run: () => ({ changes: 0, lastInsertRowid: 0 }),
+              all: () => [],
+              columns: () => [],
+            }),
+            exec: jest.fn(),
+            close: jest.fn(),
+          })),
+        { virtual: true }
+      );
+
+      const driver = new SQLite(':memory');
+
+      await expect(driver.create()).rejects.toThrow(CreateConnectionError);
+      await expect(driver.create()).rejects.toThrow(
+        'Cannot find module sqlite3'
+      );
+
+      // The other engines do not need it
+      await expect(
+        new SQLite({ path: ':memory', engine: 'better-sqlite3' }).create()
+      ).resolves.toBeDefined();
+
+      jest.doMock('sqlite3', () => sqlite);
+    });
+  });
+
+  describe('MegaConnection.schema', () => {
+    it('should read the schema with PRAGMA functions', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      db.all = jest.fn((sql, values, callback) => {
+        if (sql.includes('pragma_foreign_key_list')) {
+          return callback(null, [
+            {
+              id: 0,
+              table: 'users',
+              from: 'a',
+              to: 'x',
+              on_update: 'NO ACTION',
+              on_delete: 'CASCADE',
+            },
+            {
+              id: 0,
+              table: 'users',
+              from: 'b',
+              to: 'y',
+              on_update: 'NO ACTION',
+              on_delete: 'CASCADE',
+            },
+          ]);
+        }
+
+        callback(null, [
+          { name: 'id', type: 'INTEGER', notnull: 1, dflt_value: null, pk: 1 },
+        ]);
+      });
+
+      await expect(connection.schema().columns('users')).resolves.toEqual([
+        {
+          name: 'id',
+          type: 'INTEGER',
+          nullable: false,
+          default: null,
+          primaryKey: 1,
+        },
+      ]);
+
+      expect(db.all).toHaveBeenLastCalledWith(
+        'SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?, ?) ORDER BY cid;',
+        ['users', 'main'],
+        expect.any(Function)
+      );
+
+      await expect(
+        connection.schema('archive').foreignKeys('posts')
+      ).resolves.toEqual([
+        {
+          id: 0,
+          table: 'users',
+          from: ['a', 'b'],
+          to: ['x', 'y'],
+          onUpdate: 'NO ACTION',
+          onDelete: 'CASCADE',
+        },
+      ]);
+
+      expect(db.all).toHaveBeenLastCalledWith(
+        expect.stringContaining('pragma_foreign_key_list(?, ?)'),
+        ['posts', 'archive'],
+        expect.any(Function)
+      );
+
+      await connection.schema('archive').triggers();
+
+      expect(db.all).toHaveBeenLastCalledWith(
+        `SELECT name, tbl_name, sql FROM "archive".sqlite_schema WHERE type = 'trigger' ORDER BY name;`,
+        [],
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(connection.schema('x"; DROP').tables()).rejects.toThrow(
+        'Invalid schema name: x"; DROP'
+      );
+
+      await expect(connection.schema().columns('')).rejects.toThrow(
+        'Invalid table: '
+      );
+
+      await expect(connection.schema().triggers(1 as any)).rejects.toThrow(
+        QueryError
+      );
+
+      expect(db.all).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SQLite casts', () => {
+    it('should decode the columns of query rows', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      db.all = jest.fn((sql, values, callback) =>
+        callback(null, [
+          {
+            active: 1,
+            created_at: '2024-01-01 10:00:00',
+            meta: '{"tags":["a"]}',
+            name: 'simon',
+          },
+          { active: 0, created_at: null, meta: null, name: 'john' },
+        ])
+      );
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.query('SELECT * FROM users;', undefined, {
+          casts: {
+            active: 'boolean',
+            created_at: 'date',
+            meta: 'json',
+            name: (name: string) => name.toUpperCase(),
+          },
+        })
+      ).resolves.toEqual([
+        {
+          active: true,
+          created_at: new Date('2024-01-01T10:00:00.000Z'),
+          meta: { tags: ['a'] },
+          name: 'SIMON',
+        },
+        { active: false, created_at: null, meta: null, name: 'JOHN' },
+      ]);
+    });
+
+    it('should read numeric dates with the date format', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      db.all = jest.fn((sql, values, callback) =>
+        callback(null, [{ at: 1704103200, label: 'soon' }])
+      );
+
+      const connection = await new SQLite({
+        path: ':memory',
+        dateFormat: 'unix',
+      }).create();
+
+      await expect(
+        connection.query('SELECT at, label FROM events;', undefined, {
+          casts: { at: 'date', label: 'date' },
+        })
+      ).resolves.toEqual([
+        { at: new Date('2024-01-01T10:00:00.000Z'), label: 'soon' },
+      ]);
+    });
+
+    it('should decode the columns of streamed rows', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection
+          .stream('SELECT id FROM users;', undefined, {
+            casts: { id: (id: number) => `#${id}` },
+          })
+          .toArray()
+      ).resolves.toEqual([{ id: '#1' }, { id: '#2' }]);
+
+      await expect(
+        connection
+          .stream('SELECT id FROM users;', undefined, {
+            casts: { id: 'number' as any },
+          })
+          .toArray()
+      ).rejects.toThrow('Invalid query cast: id');
+
+      expect(db.prepare).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject with QueryError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite(':memory').create();
+
+      await expect(
+        connection.query('SELECT * FROM users;', undefined, {
+          casts: [] as any,
+        })
+      ).rejects.toThrow('Invalid query casts: ');
+
+      await expect(
+        connection.query('SELECT * FROM users;', undefined, {
+          casts: { name: 'number' as any },
+        })
+      ).rejects.toThrow('Invalid query cast: name');
+
+      expect(db.all).not.toHaveBeenCalled();
+
+      const invalid = connection.query('SELECT * FROM users;', undefined, {
+        casts: { name: 'json' },
+      });
+
+      await expect(invalid).rejects.toThrow(QueryError);
+      await expect(invalid).rejects.toMatchObject({
+        message: expect.stringContaining('Invalid JSON value'),
+        sql: 'SELECT * FROM users;',
+      });
+    });
+
+    it('should throw CreateConnectionError', () => {
+      expect(() => new SQLite({ path: ':memory', types: [] as any })).toThrow(
+        'Invalid SQLite types: '
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', types: { '(1)': 'json' } })
+      ).toThrow('Invalid SQLite type name: (1)');
+
+      expect(
+        () => new SQLite({ path: ':memory', types: { JSON: 'xml' as any } })
+      ).toThrow('Invalid SQLite type cast: JSON');
+
+      expect(
+        () => new SQLite({ path: ':memory', safeIntegers: 1 as any })
+      ).toThrow('Invalid SQLite safe integers option: 1');
+
+      // sqlite3 exposes neither declared types nor 64-bit integers
+      expect(
+        () => new SQLite({ path: ':memory', types: { BOOLEAN: 'boolean' } })
+      ).toThrow('The sqlite3 engine does not support casts by declared type');
+
+      expect(() => new SQLite({ path: ':memory', safeIntegers: true })).toThrow(
+        'The sqlite3 engine does not support safe integers'
+      );
+
+      expect(
+        () => new SQLite({ path: ':memory', types: {}, safeIntegers: false })
+      ).not.toThrow();
+    });
+  });
+
+  describe('SQLite read-only connections', () => {
+    it('should reject writes with ReadOnlyError', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, mode, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        mode: 'readonly',
+        redactValues: true,
+      }).create();
+
+      const insert = connection.query('INSERT INTO users (name) VALUES (?);', [
+        'simon',
+      ]);
+
+      await expect(insert).rejects.toThrow(ReadOnlyError);
+      await expect(insert).rejects.toThrow(QueryError);
+      await expect(insert).rejects.toMatchObject({
+        message: 'Cannot run INSERT on a read-only connection',
+        sql: 'INSERT INTO users (name) VALUES (?);',
+        values: ['[REDACTED]'],
+      });
+
+      await expect(
+        connection.query(
+          'WITH old AS (SELECT id FROM users) DELETE FROM users WHERE id IN old;'
+        )
+      ).rejects.toThrow('Cannot run DELETE on a read-only connection');
+
+      await expect(
+        connection.query('/* schema */ CREATE TABLE logs (line TEXT);')
+      ).rejects.toThrow('Cannot run CREATE on a read-only connection');
+
+      await expect(
+        connection.prepare('UPDATE users SET name = ?;')
+      ).rejects.toThrow('Cannot run UPDATE on a read-only connection');
+
+      expect(db.run).not.toHaveBeenCalledWith(
+        expect.stringMatching(/INSERT|DELETE|CREATE/),
+        expect.anything(),
+        expect.any(Function)
+      );
+      expect(db.prepare).not.toHaveBeenCalled();
+
+      // Reads still run
+      await expect(connection.query('SELECT * FROM users;')).resolves.toEqual([
+        { name: 'simon' },
+      ]);
+    });
+
+    it('should apply PRAGMA query_only', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        queryOnly: true,
+        pragmas: { query_only: false },
+      }).create();
+
+      // Applied last, so it wins over the PRAGMA options
+      expect(db.run).toHaveBeenLastCalledWith(
+        'PRAGMA query_only = ON',
+        undefined,
+        expect.any(Function)
+      );
+
+      await expect(connection.query('DROP TABLE users;')).rejects.toThrow(
+        ReadOnlyError
+      );
+
+      await expect(
+        connection.batch('INSERT INTO users (name) VALUES (?);', [['a']])
+      ).rejects.toThrow(ReadOnlyError);
+    });
+
+    it('should reject PRAGMA changes and scripts that write', async () => {
+      const db = mock().db();
+      sqlite.Database = jest.fn((path, callback) => {
+        setTimeout(callback, 1);
+        return db;
+      }) as any;
+
+      const connection = await new SQLite({
+        path: ':memory',
+        queryOnly: true,
+      }).create();
+
+      await expect(
+        connection.query('PRAGMA query_only = OFF;')
+      ).rejects.toThrow('Cannot run PRAGMA on a read-only connection');
+
+      await expect(
+        connection.query('PRAGMA main."query_only"(0);')
+      ).rejects.toThrow(ReadOnlyError);
+
+      await expect(connection.query('PRAGMA optimize;')).rejects.toThrow(
+        ReadOnlyError
+      );
+
+      // Pragmas that read still run, even with an argument
+      await expect(
+        connection.query('PRAGMA table_info(users);')
+      ).resolves.toEqual([{ name: 'simon' }]);
+
+      const script = "SELECT ';'; -- DROP TABLE users;\nDELETE FROM users;";
+
+      await expect(connection.exec(script)).rejects.toThrow(ReadOnlyError);
+      await expect(connection.exec(script)).rejects.toMatchObject({
+        message: 'Cannot run DELETE on a read-only connection',
+        sql: script,
+      });
+
+      expect(db.exec).not.toHaveBeenCalled();
+
+      await expect(
+        connection.exec("SELECT ';'; PRAGMA journal_mode;")
+      ).resolves.toBeUndefined();
+
+      expect(db.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw CreateConnectionError', () => {
+      expect(
+        () => new SQLite({ path: ':memory', queryOnly: 'yes' as any })
+      ).toThrow('Invalid SQLite query only option: yes');
+    });
   });
 });
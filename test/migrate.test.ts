@@ -0,0 +1,295 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+import { SQLite, SQLiteConnection } from '../src';
+import { MigrationError, SQLiteMigrator, rebuild } from '../src';
+import { isDefined } from '@megaorm/test';
+
+// Creates a directory with the given migration files
+const migrations = (files: Record<string, string>) => {
+  const directory = mkdtempSync(join(tmpdir(), 'megaorm-migrations-'));
+
+  Object.entries(files).forEach(([name, content]) =>
+    writeFileSync(join(directory, name), content)
+  );
+
+  return directory;
+};
+
+describe('SQLiteMigrator', () => {
+  let connection: SQLiteConnection;
+  let directory: string;
+
+  const CREATE_USERS = `CREATE TABLE users (id INTEGER PRIMARY KEY);
+    -- migrate:down
+    DROP TABLE users;`;
+
+  beforeEach(async () => {
+    connection = await new SQLite(':memory:').create();
+  });
+
+  afterEach(async () => {
+    await connection.close();
+    if (isDefined(directory)) rmSync(directory, { recursive: true });
+    directory = undefined;
+  });
+
+  it('should load migrations in version order', async () => {
+    directory = migrations({
+      '10_add_age.sql': 'ALTER TABLE users ADD COLUMN age INTEGER;',
+      '2_create_users.sql': CREATE_USERS,
+      'README.md': '# Migrations',
+    });
+
+    const loaded = await new SQLiteMigrator(connection, directory).load();
+
+    expect(loaded).toEqual([
+      {
+        version: 2,
+        name: '2_create_users',
+        checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+        up: expect.stringContaining('CREATE TABLE users'),
+        down: expect.stringContaining('DROP TABLE users'),
+      },
+      {
+        version: 10,
+        name: '10_add_age',
+        checksum: expect.any(String),
+        up: 'ALTER TABLE users ADD COLUMN age INTEGER;',
+        down: undefined,
+      },
+    ]);
+  });
+
+  it('should reject invalid migrations with MigrationError', async () => {
+    expect(() => new SQLiteMigrator(connection, '')).toThrow(MigrationError);
+
+    expect(
+      () =>
+        new SQLiteMigrator(connection, {
+          directory: './migrations',
+          table: 'my-table',
+        })
+    ).toThrow('Invalid migrations table: my-table');
+
+    expect(
+      () =>
+        new SQLiteMigrator(connection, {
+          directory: './migrations',
+          tracking: 'file' as any,
+        })
+    ).toThrow('Invalid migration tracking: file');
+
+    directory = migrations({
+      '1_a.sql': CREATE_USERS,
+      '01_b.sql': CREATE_USERS,
+    });
+
+    await expect(
+      new SQLiteMigrator(connection, directory).load()
+    ).rejects.toThrow('Duplicate migration version: 01_b and 1_a');
+
+    await expect(
+      new SQLiteMigrator(connection, join(directory, 'missing')).load()
+    ).rejects.toThrow(MigrationError);
+
+    const migrator = new SQLiteMigrator(connection, directory);
+
+    await expect(migrator.up({ to: -1 })).rejects.toThrow(
+      'Invalid migration version: -1'
+    );
+
+    await expect(migrator.down({ steps: 0 })).rejects.toThrow(
+      'Invalid migration steps: 0'
+    );
+  });
+
+  it('should roll back a failed migration', async () => {
+    directory = migrations({
+      '1_create_users.sql': CREATE_USERS,
+      '2_broken.sql': `CREATE TABLE posts (id INTEGER PRIMARY KEY);
+        INSERT INTO missing VALUES (1);`,
+    });
+
+    const migrator = new SQLiteMigrator(connection, directory);
+
+    await expect(migrator.up()).rejects.toMatchObject({
+      message:
+        'Migration 2_broken failed: SQLITE_ERROR: no such table: missing',
+      code: 'SQLITE_ERROR',
+    });
+
+    await expect(migrator.status()).resolves.toMatchObject([
+      { version: 1, state: 'applied' },
+      { version: 2, state: 'pending' },
+    ]);
+
+    await expect(connection.schema().tables()).resolves.toMatchObject([
+      { name: 'megaorm_migrations' },
+      { name: 'users' },
+    ]);
+  });
+
+  it('should reject foreign key violations', async () => {
+    directory = migrations({
+      '1_create_posts.sql': `CREATE TABLE users (id INTEGER PRIMARY KEY);
+        CREATE TABLE posts (user_id INTEGER REFERENCES users (id));
+        INSERT INTO posts VALUES (1);`,
+    });
+
+    await expect(
+      new SQLiteMigrator(connection, directory).up()
+    ).rejects.toThrow(
+      'Migration 1_create_posts failed: Foreign key constraint failed on table posts'
+    );
+
+    await expect(connection.schema().tables()).resolves.toHaveLength(1);
+  });
+
+  it('should check migrations without applying them', async () => {
+    directory = migrations({
+      '1_create_users.sql': CREATE_USERS,
+      '2_add_age.sql': `ALTER TABLE users ADD COLUMN age INTEGER;
+        -- migrate:down
+        ALTER TABLE users DROP COLUMN age;`,
+    });
+
+    const migrator = new SQLiteMigrator(connection, directory);
+
+    await expect(migrator.up({ dryRun: true })).resolves.toHaveLength(2);
+    await expect(connection.schema().tables()).resolves.toEqual([]);
+    expect(connection.inTransaction).toBe(false);
+
+    await migrator.up();
+
+    await expect(
+      migrator.down({ steps: 2, dryRun: true })
+    ).resolves.toHaveLength(2);
+
+    await expect(migrator.status()).resolves.toMatchObject([
+      { state: 'applied' },
+      { state: 'applied' },
+    ]);
+  });
+
+  it('should detect migrations changed since they were applied', async () => {
+    directory = migrations({ '1_create_users.sql': CREATE_USERS });
+
+    const migrator = new SQLiteMigrator(connection, directory);
+    await migrator.up();
+
+    writeFileSync(
+      join(directory, '1_create_users.sql'),
+      'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);'
+    );
+
+    writeFileSync(
+      join(directory, '2_add_age.sql'),
+      'ALTER TABLE users ADD COLUMN age INTEGER;'
+    );
+
+    await expect(migrator.status()).resolves.toMatchObject([
+      { version: 1, state: 'drifted' },
+      { version: 2, state: 'pending' },
+    ]);
+
+    await expect(migrator.up()).rejects.toThrow(
+      'Migrations changed since they were applied: 1_create_users'
+    );
+
+    rmSync(join(directory, '1_create_users.sql'));
+
+    await expect(migrator.status()).resolves.toMatchObject([
+      { version: 1, name: '1_create_users', state: 'missing' },
+      { version: 2, state: 'pending' },
+    ]);
+
+    await expect(migrator.down()).rejects.toThrow(
+      'Migration file not found: 1_create_users'
+    );
+  });
+
+  it('should load JavaScript migrations from their current content', async () => {
+    directory = migrations({
+      '1_create_users.js': `exports.up = 'CREATE TABLE users (id INTEGER PRIMARY KEY);';`,
+    });
+
+    const migrator = new SQLiteMigrator(connection, directory);
+
+    await expect(migrator.load()).resolves.toMatchObject([
+      { up: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+    ]);
+
+    // The file is loaded again, as a CommonJS module
+    writeFileSync(
+      join(directory, '1_create_users.js'),
+      `const { basename } = require('path');
+      exports.up = 'CREATE TABLE users (id INTEGER PRIMARY KEY); -- ' + basename(module.filename);
+      this.down = 'DROP TABLE users;';`
+    );
+
+    // Jest keeps its own module registry, which require.cache cannot clear
+    jest.resetModules();
+
+    await expect(migrator.load()).resolves.toMatchObject([
+      {
+        up: 'CREATE TABLE users (id INTEGER PRIMARY KEY); -- 1_create_users.js',
+        down: 'DROP TABLE users;',
+      },
+    ]);
+  });
+
+  it('should track migrations with user_version', async () => {
+    directory = migrations({
+      '1_create_users.sql': CREATE_USERS,
+      '2_add_age.sql': 'ALTER TABLE users ADD COLUMN age INTEGER;',
+    });
+
+    const migrator = new SQLiteMigrator(connection, {
+      directory,
+      tracking: 'user_version',
+    });
+
+    await migrator.up();
+
+    await expect(connection.query('PRAGMA user_version;')).resolves.toEqual([
+      { user_version: 2 },
+    ]);
+
+    await expect(connection.schema().tables()).resolves.toMatchObject([
+      { name: 'users' },
+    ]);
+
+    await expect(migrator.down()).rejects.toThrow(
+      'Migration cannot be reverted: 2_add_age'
+    );
+
+    await expect(migrator.status()).resolves.toEqual([
+      { version: 1, name: '1_create_users', state: 'applied', appliedAt: null },
+      { version: 2, name: '2_add_age', state: 'applied', appliedAt: null },
+    ]);
+  });
+
+  it('should reject rebuilds outside of migrations', async () => {
+    await connection.exec('CREATE TABLE users (id INTEGER PRIMARY KEY);');
+
+    await expect(
+      rebuild(connection, 'users', 'id INTEGER PRIMARY KEY')
+    ).rejects.toThrow('Tables can only be rebuilt in a transaction');
+
+    await expect(
+      connection.transaction((tx) =>
+        rebuild(tx, 'users', 'id INTEGER PRIMARY KEY')
+      )
+    ).rejects.toThrow('Foreign keys must be disabled to rebuild a table');
+
+    await connection.query('PRAGMA foreign_keys = OFF;');
+
+    await expect(
+      connection.transaction((tx) =>
+        rebuild(tx, 'posts', 'id INTEGER PRIMARY KEY')
+      )
+    ).rejects.toThrow('Unknown table: posts');
+  });
+});
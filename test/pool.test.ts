@@ -0,0 +1,413 @@
+jest.mock('sqlite3');
+
+import sqlite from 'sqlite3';
+
+import { SQLitePool } from '../src';
+import { CloseConnectionError } from '@megaorm/errors';
+import { CreateConnectionError } from '@megaorm/errors';
+
+const mock = () => {
+  return {
+    db: (...reject: Array<string>) => {
+      const db = {
+        close: jest.fn((callback) => callback(null)),
+        configure: jest.fn(),
+        run: jest.fn((sql, values, callback) => callback(null)),
+        all: jest.fn((sql, values, callback) => {
+          if (reject.includes('all')) return callback(new Error('ops'));
+          callback(null, [{ ok: 1 }]);
+        }),
+      };
+
+      return db;
+    },
+  };
+};
+
+// Opens a new mock database for every connection
+const open = (...reject: Array<string>) => {
+  const dbs = [];
+
+  sqlite.Database = jest.fn((...args) => {
+    const db = mock().db(...reject);
+    dbs.push(db);
+    setTimeout(args.pop(), 1);
+    return db;
+  }) as any;
+
+  return dbs;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('SQLitePool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('SQLitePool.constructor', () => {
+    it('should throw CreateConnectionError for invalid options', () => {
+      expect(() => new SQLitePool(':memory', [] as any)).toThrow(
+        CreateConnectionError
+      );
+
+      expect(() => new SQLitePool(':memory', { min: -1 })).toThrow(
+        'Invalid SQLite pool min: -1'
+      );
+
+      expect(() => new SQLitePool(':memory', { min: 3, max: 2 })).toThrow(
+        'Invalid SQLite pool max: 2'
+      );
+
+      expect(() => new SQLitePool(':memory', { acquireTimeout: 0 })).toThrow(
+        'Invalid SQLite pool acquire timeout: 0'
+      );
+
+      expect(() => new SQLitePool(':memory', { idleTimeout: 1.5 })).toThrow(
+        'Invalid SQLite pool idle timeout: 1.5'
+      );
+
+      expect(
+        () => new SQLitePool(':memory', { validationQuery: 1 as any })
+      ).toThrow('Invalid SQLite pool validation query: 1');
+
+      expect(() => new SQLitePool(':memory', { mode: 'test' as any })).toThrow(
+        'Invalid SQLite pool mode: test'
+      );
+
+      expect(() => new SQLitePool(123 as any)).toThrow(CreateConnectionError);
+    });
+  });
+
+  describe('SQLitePool.acquire', () => {
+    it('should reuse released connections', async () => {
+      open();
+      const pool = new SQLitePool(':memory');
+
+      const connection = await pool.acquire();
+      await pool.release(connection);
+
+      await expect(pool.acquire()).resolves.toBe(connection);
+      expect(sqlite.Database).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a connection once the pool is full', async () => {
+      open();
+      const pool = new SQLitePool(':memory', { max: 1 });
+
+      const connection = await pool.acquire();
+      const pending = pool.acquire();
+
+      await wait(5);
+      await pool.release(connection);
+
+      await expect(pending).resolves.toBe(connection);
+      expect(sqlite.Database).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when no connection is released in time', async () => {
+      open();
+      const pool = new SQLitePool(':memory', { max: 1, acquireTimeout: 10 });
+
+      await pool.acquire();
+
+      await expect(pool.acquire()).rejects.toThrow(
+        'Timed out acquiring a connection after 10ms'
+      );
+    });
+
+    it('should replace connections that fail the validation query', async () => {
+      const dbs = open('all');
+      const pool = new SQLitePool(':memory', { validationQuery: 'SELECT 1;' });
+
+      const connection = await pool.acquire();
+      await pool.release(connection);
+
+      const replacement = await pool.acquire();
+
+      expect(replacement).not.toBe(connection);
+      expect(dbs[0].all).toHaveBeenCalledWith(
+        'SELECT 1;',
+        undefined,
+        expect.any(Function)
+      );
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use read-only connections to read in single-writer mode', async () => {
+      open();
+      const pool = new SQLitePool(':memory', { mode: 'single-writer' });
+
+      const writer = await pool.acquire();
+      const reader = await pool.acquire({ readonly: true });
+
+      expect(writer.driver).toBe(pool.driver);
+      expect(reader.driver).not.toBe(pool.driver);
+      expect(sqlite.Database).toHaveBeenLastCalledWith(
+        ':memory',
+        sqlite.OPEN_READONLY,
+        expect.any(Function)
+      );
+
+      // Only one writer at a time
+      const pending = pool.acquire();
+      await wait(5);
+      await pool.release(writer);
+
+      await expect(pending).resolves.toBe(writer);
+    });
+
+    it('should attach the databases from the driver options', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(
+        { path: ':memory', attach: { archive: './archive.sqlite' } },
+        { mode: 'single-writer' }
+      );
+
+      await pool.acquire();
+      await pool.acquire({ readonly: true });
+
+      dbs.forEach((db) =>
+        expect(db.run).toHaveBeenLastCalledWith(
+          'ATTACH DATABASE ? AS "archive";',
+          ['./archive.sqlite'],
+          expect.any(Function)
+        )
+      );
+      expect(dbs).toHaveLength(2);
+    });
+
+    it('should reject with CreateConnectionError', async () => {
+      open();
+      const pool = new SQLitePool(':memory');
+
+      await expect(pool.acquire('test' as any)).rejects.toThrow(
+        'Invalid acquire options: test'
+      );
+
+      await pool.drain();
+      await expect(pool.acquire()).rejects.toThrow(
+        'Cannot acquire connections once the pool is drained'
+      );
+    });
+  });
+
+  describe('SQLitePool.release', () => {
+    it('should roll back open transactions', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory');
+
+      const connection = await pool.acquire();
+      await connection.beginTransaction();
+      await pool.release(connection);
+
+      expect(connection.inTransaction).toBe(false);
+      expect(dbs[0].run).toHaveBeenLastCalledWith(
+        'ROLLBACK;',
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should reject with CloseConnectionError', async () => {
+      open();
+      const pool = new SQLitePool(':memory');
+      const connection = await pool.acquire();
+
+      await pool.release(connection);
+      await expect(pool.release(connection)).rejects.toThrow(
+        CloseConnectionError
+      );
+    });
+
+    it('should close idle connections after the idle timeout', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { idleTimeout: 10, min: 1 });
+
+      const first = await pool.acquire();
+      const second = await pool.acquire();
+      await pool.release(first);
+      await pool.release(second);
+
+      await wait(30);
+
+      // Keeps the minimum number of connections open
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+      expect(dbs[1].close).not.toHaveBeenCalled();
+    });
+
+    it('should keep checking idle connections kept for the minimum', async () => {
+      jest.useFakeTimers();
+
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { idleTimeout: 10, min: 1 });
+
+      const connections = Promise.all([pool.acquire(), pool.acquire()]);
+      await jest.advanceTimersByTimeAsync(1);
+      const [first, second] = await connections;
+
+      await pool.release(first);
+      await jest.advanceTimersByTimeAsync(5);
+      await pool.release(second);
+
+      // The first connection is closed, the second is kept for the minimum
+      await jest.advanceTimersByTimeAsync(10);
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+      expect(dbs[1].close).not.toHaveBeenCalled();
+
+      // The kept connection is checked again after another idle timeout
+      const timeout = jest.spyOn(global, 'setTimeout');
+      await jest.advanceTimersByTimeAsync(10);
+      expect(timeout).toHaveBeenCalledWith(expect.any(Function), 10);
+      timeout.mockRestore();
+
+      await expect(pool.acquire()).resolves.toBe(second);
+      expect(sqlite.Database).toHaveBeenCalledTimes(2);
+
+      jest.useRealTimers();
+    });
+
+    it('should not close connections under the minimum together', async () => {
+      jest.useFakeTimers();
+
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { idleTimeout: 10, min: 2 });
+
+      const connections = Promise.all([
+        pool.acquire(),
+        pool.acquire(),
+        pool.acquire(),
+      ]);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await Promise.all((await connections).map((c) => pool.release(c)));
+
+      // The idle timers fire at once, and only one connection is closed
+      await jest.advanceTimersByTimeAsync(10);
+      expect(dbs.filter((db) => db.close.mock.calls.length > 0)).toHaveLength(
+        1
+      );
+      expect(sqlite.Database).toHaveBeenCalledTimes(3);
+
+      jest.useRealTimers();
+    });
+
+    it('should replace closed connections to keep the minimum', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { min: 1 });
+
+      const connection = await pool.acquire();
+      await connection.beginTransaction();
+
+      // The rollback fails, so the connection is closed
+      dbs[0].run.mockImplementation((sql, values, callback) => {
+        callback(new Error('ops'));
+      });
+
+      await pool.release(connection);
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+
+      await wait(5);
+      expect(sqlite.Database).toHaveBeenCalledTimes(2);
+
+      // The replacement is idle, and handed out without opening another one
+      await expect(pool.acquire()).resolves.not.toBe(connection);
+      expect(sqlite.Database).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('SQLitePool.use', () => {
+    it('should release the connection once the callback is done', async () => {
+      open();
+      const pool = new SQLitePool(':memory', { max: 1 });
+
+      await expect(pool.use(() => 'done')).resolves.toBe('done');
+      await expect(
+        pool.use(() => Promise.reject(new Error('ops')))
+      ).rejects.toThrow('ops');
+
+      await expect(pool.use(() => 'again')).resolves.toBe('again');
+      expect(sqlite.Database).toHaveBeenCalledTimes(1);
+
+      await expect(pool.use('test' as any)).rejects.toThrow(
+        'Invalid callback: test'
+      );
+    });
+  });
+
+  describe('SQLitePool.drain', () => {
+    it('should close every connection once released', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { max: 2 });
+
+      const idle = await pool.acquire();
+      const busy = await pool.acquire();
+      const pending = pool.acquire();
+
+      await pool.release(idle);
+      expect(await pending).toBe(idle);
+      await pool.release(idle);
+
+      let drained = false;
+      const drain = pool.drain().then(() => (drained = true));
+
+      await wait(5);
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+      expect(drained).toBe(false);
+
+      await pool.release(busy);
+      await drain;
+
+      expect(dbs[1].close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject pending acquires', async () => {
+      open();
+      const pool = new SQLitePool(':memory', { max: 1 });
+
+      const connection = await pool.acquire();
+      const pending = pool.acquire();
+      const drain = pool.drain();
+
+      await expect(pending).rejects.toThrow(
+        'Cannot acquire connections once the pool is drained'
+      );
+
+      await pool.release(connection);
+      await expect(drain).resolves.toBeUndefined();
+    });
+
+    it('should close connections that open while draining', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { max: 2 });
+
+      const opening = pool.acquire();
+      const drain = pool.drain();
+
+      await expect(opening).rejects.toThrow(
+        'Cannot acquire connections once the pool is drained'
+      );
+      await expect(drain).resolves.toBeUndefined();
+
+      expect(dbs).toHaveLength(1);
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close connections validated while draining', async () => {
+      const dbs = open();
+      const pool = new SQLitePool(':memory', { validationQuery: 'SELECT 1;' });
+
+      await pool.release(await pool.acquire());
+
+      const validating = pool.acquire();
+      const drain = pool.drain();
+
+      await expect(validating).rejects.toThrow(
+        'Cannot acquire connections once the pool is drained'
+      );
+      await expect(drain).resolves.toBeUndefined();
+
+      expect(dbs[0].close).toHaveBeenCalledTimes(1);
+    });
+  });
+});